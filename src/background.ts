@@ -1,154 +1,245 @@
 // Background service worker for tab management
-// Background service worker for tab management
+import {
+  addHistoryEntry,
+  getSettings,
+  loadSettings,
+  migrateStoredSettings,
+  pruneHistory,
+  recordMetric,
+  saveSettings,
+} from './utils/db';
+import { DEFAULT_TAB_BEHAVIOR, ProviderConfig, Settings, TabBehavior } from './utils/settings';
+import { applyProviderOptions, buildProviderUrl, QUERY_PLACEHOLDER } from './utils/providers';
+import { HistoryContext, ProtocolError, Request, SelectionResponse, TabMessage } from './utils/protocol';
+import { isExtensionPage, logRequests, MessageRouter, validateRequests, verifySenders } from './utils/messageRouter';
+import { loadLocaleMessages, MessageKey, setUiLanguage, t } from './utils/i18n';
+import { createHandoff, isHandoffTarget, PendingHandoff } from './utils/handoff';
+import { SessionMap } from './utils/sessionMap';
+
+const PROVIDER_SLOT_COMMAND_PREFIX = 'search-provider-';
+const POPUP_WINDOW_WIDTH = 560;
+const GROUP_TITLE_LENGTH = 24;
+const HANDOFF_TTL_MS = 60 * 1000;
+
+type ContextMenuTarget = 'selection' | 'link' | 'page';
+
+interface OpenTabOptions {
+  provider?: ProviderConfig;
+  // Tab the search started from; new tabs open next to it
+  sourceTab?: chrome.tabs.Tab;
+  background?: boolean;
+  history?: HistoryContext;
+  // Overrides the provider's own behavior
+  behavior?: TabBehavior;
+  // Position after the source tab, for opening several tabs in order
+  offset?: number;
+  // Set to false when the caller groups the tab itself
+  groupBySource?: boolean;
+  // Text too long for the URL, kept until the tab's content script picks it up
+  handoffText?: string;
+}
 
-// --- IndexedDB Logic Inlined ---
-
-interface Settings {
-  enabled: boolean;
-  providers: {
-    chatgpt: boolean;
-    google: boolean;
-    claude: boolean;
-  };
-  affordanceMode: 'quick-actions';
-  theme?: 'light' | 'dark';
+function toGroupTitle(text: string): string {
+  const title = text.replace(/\s+/g, ' ').trim();
+  return title.length > GROUP_TITLE_LENGTH ? `${title.slice(0, GROUP_TITLE_LENGTH - 1).trimEnd()}\u2026` : title;
 }
 
-const DB_NAME = 'SelectToSearchDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'settings';
-
-const defaultSettings: Settings = {
-  enabled: true,
-  providers: {
-    chatgpt: true,
-    google: true,
-    claude: false,
-  },
-  affordanceMode: 'quick-actions',
-  theme: 'light',
+// Chrome replaces %s in the selection title with the selected text
+const CONTEXT_MENU_TITLES: Record<ContextMenuTarget, MessageKey> = {
+  selection: 'contextMenuSelection',
+  link: 'contextMenuLink',
+  page: 'contextMenuPage',
 };
 
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+class BackgroundService {
+  private contextMenuUpdate: Promise<void> = Promise.resolve();
+  // Tabs opened for providers set to 'reuse', by provider id
+  private readonly reusableTabs = new SessionMap<string>('reusableTabs');
+  // Tab groups created for "group tabs by source page", by source tab id
+  private readonly sourceGroups = new SessionMap<number>('sourceGroups');
+  // Long selections waiting to be picked up by their provider tab, by tab id
+  private readonly handoffs = new Map<number, PendingHandoff>();
+  private readonly router = new MessageRouter()
+    .use(logRequests)
+    .use(validateRequests)
+    .use(verifySenders)
+    .on('OPEN_TAB', (request, sender) => this.handleOpenTab(request, sender).then(() => null))
+    .on('FRAME_SELECTION', (request, sender) => {
+      this.relayFrameSelection(request, sender);
+      return null;
+    })
+    .on('GET_SETTINGS', (_request, sender) => (sender.tab?.incognito ? getSettings() : loadSettings()))
+    .on('SETTINGS_UPDATED', (request) => {
+      this.applySettings(request.settings);
+      return null;
+    })
+    .on('RECORD_METRIC', (request, sender) => {
+      // Nothing is counted for incognito tabs
+      if (!sender.tab?.incognito) {
+        this.recordUsage(request);
       }
-    };
-  });
-}
-
-async function getSettings(): Promise<Settings> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get('userSettings');
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        const settings = request.result;
-        resolve(settings ? { ...defaultSettings, ...settings } : defaultSettings);
-      };
+      return null;
+    })
+    .on('ASK_ALL', (request, sender) => this.askAll(request, sender).then(() => null))
+    .on('DISABLE_SITE', (request, sender) => this.handleDisableSite(request, sender).then(() => null))
+    .on('GET_MESSAGES', (request) => loadLocaleMessages(request.language))
+    .on('GET_HANDOFF', (_request, sender) => this.getHandoff(sender))
+    .on('HANDOFF_RESULT', (request, sender) => {
+      // A page without a prompt box leaves the text for the next load
+      const tabId = sender.tab?.id;
+      if (request.delivered && tabId !== undefined) {
+        const handoff = this.handoffs.get(tabId);
+        if (handoff && isHandoffTarget(handoff, sender.url)) {
+          this.handoffs.delete(tabId);
+        }
+      }
+      return null;
     });
-  } catch (error) {
-    console.error('Failed to get settings from DB:', error);
-    return defaultSettings;
-  }
-}
-
-// --- End IndexedDB Logic ---
-
-interface OpenTabMessage {
-  type: 'OPEN_TAB';
-  url: string;
-}
-
-interface GetSettingsMessage {
-  type: 'GET_SETTINGS';
-}
-
-interface SettingsUpdatedMessage {
-  type: 'SETTINGS_UPDATED';
-  settings: Settings;
-}
 
-type Message = OpenTabMessage | GetSettingsMessage | SettingsUpdatedMessage;
-
-class BackgroundService {
   constructor() {
     this.init();
   }
 
   private init(): void {
     // Listen for messages from content script and options page
-    chrome.runtime.onMessage.addListener(this.handleMessage.bind(this));
+    chrome.runtime.onMessage.addListener(this.router.listener);
 
     // Handle extension installation/update
     chrome.runtime.onInstalled.addListener(this.handleInstalled.bind(this));
 
+    // Context menu entries for selections, links and pages
+    chrome.contextMenus.onClicked.addListener(this.handleContextMenuClick.bind(this));
+    // Upgrade stored settings to the current schema before anything reads them
+    migrateStoredSettings()
+      .catch((error) => console.error('Failed to migrate settings:', error))
+      .then(() => getSettings())
+      .then((settings) => this.updateContextMenus(settings));
+
+    chrome.tabs.onRemoved.addListener(this.handleTabRemoved.bind(this));
+
+    // Global keyboard shortcuts declared under "commands" in the manifest
+    chrome.commands.onCommand.addListener(this.handleCommand.bind(this));
+
     console.log('Select to Search background service worker initialized');
   }
 
-  private handleMessage(
-    message: Message,
-    _sender: chrome.runtime.MessageSender,
-    sendResponse: (response?: any) => void
-  ): boolean | void {
-    if (message.type === 'OPEN_TAB') {
-      this.openProviderTab(message.url)
-        .then(() => {
-          sendResponse({ success: true });
-        })
-        .catch((error) => {
-          console.error('Failed to open tab:', error);
-          sendResponse({ success: false, error: error.message });
-        });
+  private async handleOpenTab(
+    { url, providerId, background, history, handoffText }: Request<'OPEN_TAB'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<void> {
+    const settings = await getSettings();
+    const provider = settings.providers.find((entry) => entry.id === providerId);
+    await this.openProviderTab(url, { provider, sourceTab: sender.tab, background, history, handoffText });
+  }
 
-      // Return true to indicate async response
-      return true;
+  /** Open every enabled provider for one query and collect the tabs in a group named after it. */
+  private async askAll(
+    { query, providerQueries, background, sourceUrl, pageTitle }: Request<'ASK_ALL'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<void> {
+    const settings = await getSettings();
+    const providers = settings.providers.filter((provider) => provider.enabled);
+    const tabIds: number[] = [];
+
+    for (const [offset, provider] of providers.entries()) {
+      const providerQuery = providerQueries?.[provider.id] ?? query;
+      const tab = await this.openProviderTab(buildProviderUrl(provider.urlTemplate, providerQuery), {
+        provider,
+        sourceTab: sender.tab,
+        // Only the first answer takes focus
+        background: background || offset > 0,
+        history: { query, providerId: provider.id, providerName: provider.name, sourceUrl, pageTitle },
+        behavior: 'adjacent',
+        offset,
+        groupBySource: false,
+      });
+      if (tab?.id !== undefined) {
+        tabIds.push(tab.id);
+      }
     }
 
-    if (message.type === 'GET_SETTINGS') {
-      getSettings()
-        .then((settings) => {
-          sendResponse(settings);
-        })
-        .catch((error) => {
-          console.error('Failed to get settings:', error);
-          sendResponse(null);
-        });
-      return true;
+    if (tabIds.length) {
+      const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId: sender.tab?.windowId } });
+      await chrome.tabGroups.update(groupId, { title: toGroupTitle(query) });
+    }
+  }
+
+  private recordUsage({ metric, providerId }: Request<'RECORD_METRIC'>): void {
+    recordMetric((metrics) => {
+      if (metric === 'impression') {
+        metrics.impressions += 1;
+      } else if (providerId) {
+        metrics.actions[providerId] = (metrics.actions[providerId] ?? 0) + 1;
+      }
+    });
+  }
+
+  private async handleDisableSite(
+    { hostname }: Request<'DISABLE_SITE'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<void> {
+    // Content scripts may only disable the site they are running on
+    if (!isExtensionPage(sender)) {
+      const senderHost = sender.url ? new URL(sender.url).hostname : '';
+      if (senderHost.toLowerCase() !== hostname.toLowerCase()) {
+        throw new ProtocolError('FORBIDDEN', 'A page can only disable its own site.');
+      }
     }
+    await this.disableSite(hostname);
+  }
 
-    if (message.type === 'SETTINGS_UPDATED') {
-      // Broadcast new settings to all tabs
-      this.broadcastSettings(message.settings);
-      return false;
+  /** Pass a child frame's selection to the top frame of its tab, which shows the toolbar for it. */
+  private relayFrameSelection(
+    { id, text, context }: Request<'FRAME_SELECTION'>,
+    sender: chrome.runtime.MessageSender
+  ): void {
+    const tabId = sender.tab?.id;
+    if (tabId === undefined || !sender.frameId) {
+      return;
     }
+    const message: TabMessage<'FRAME_SELECTION'> = { type: 'FRAME_SELECTION', id, text, context };
+    chrome.tabs.sendMessage(tabId, message, { frameId: 0 }).catch(() => {
+      // The top frame has no content script, e.g. a page the extension cannot run on
+    });
+  }
+
+  private applySettings(settings: Settings): void {
+    // Broadcast new settings to all tabs
+    this.broadcastSettings(settings);
+    this.updateContextMenus(settings);
+    pruneHistory(settings.history).catch((error) => {
+      console.error('Failed to prune history:', error);
+    });
+  }
+
+  private async disableSite(hostname: string): Promise<void> {
+    const settings = await getSettings();
+    const host = hostname.toLowerCase();
+
+    // A block rule wins over any allow rule, so this works under either default
+    const rules = settings.siteRules.rules.filter((rule) => rule.pattern.toLowerCase() !== host);
+    rules.push({ pattern: host, action: 'block' });
 
-    return false;
+    const updatedSettings: Settings = { ...settings, siteRules: { ...settings.siteRules, rules } };
+    await saveSettings(updatedSettings);
+    this.applySettings(updatedSettings);
   }
 
   private async broadcastSettings(settings: Settings): Promise<void> {
+    const message: TabMessage<'SETTINGS_UPDATED'> = { type: 'SETTINGS_UPDATED', settings };
+
+    // Extension pages (e.g. an open options page) don't receive tab messages
+    chrome.runtime.sendMessage(message).catch(() => {
+      // No extension page is open
+    });
+
     try {
       const tabs = await chrome.tabs.query({});
       for (const tab of tabs) {
         if (tab.id) {
           try {
             // Await the message sending to catch "Receiving end does not exist" errors
-            await chrome.tabs.sendMessage(tab.id, {
-              type: 'SETTINGS_UPDATED',
-              settings: settings,
-            });
+            await chrome.tabs.sendMessage(tab.id, message);
           } catch (error) {
             // Ignore errors for tabs that don't have content script or are not ready
           }
@@ -159,26 +250,316 @@ class BackgroundService {
     }
   }
 
-  private async openProviderTab(url: string): Promise<void> {
+  private updateContextMenus(settings: Settings): Promise<void> {
+    // Serialize rebuilds so overlapping updates never create duplicate ids
+    this.contextMenuUpdate = this.contextMenuUpdate
+      .then(() => this.rebuildContextMenus(settings))
+      .catch((error) => {
+        console.error('Failed to update context menus:', error);
+      });
+    return this.contextMenuUpdate;
+  }
+
+  private async rebuildContextMenus(settings: Settings): Promise<void> {
+    await new Promise<void>((resolve) => chrome.contextMenus.removeAll(() => resolve()));
+
+    if (!settings.enabled) {
+      return;
+    }
+
+    await setUiLanguage(settings.uiLanguage).catch((error) => {
+      console.error('Failed to load the interface language:', error);
+    });
+    const targets: ContextMenuTarget[] = ['selection', 'link', 'page'];
+    for (const target of targets) {
+      for (const provider of settings.providers.filter((entry) => entry.enabled)) {
+        chrome.contextMenus.create(
+          {
+            id: `${target}:${provider.id}`,
+            title: t(CONTEXT_MENU_TITLES[target], provider.name),
+            contexts: [target],
+          },
+          () => {
+            if (chrome.runtime.lastError) {
+              console.error('Failed to create context menu item:', chrome.runtime.lastError);
+            }
+          }
+        );
+      }
+    }
+  }
+
+  private async handleContextMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<void> {
+    const menuItemId = String(info.menuItemId);
+    const separatorIndex = menuItemId.indexOf(':');
+    const target = menuItemId.slice(0, separatorIndex) as ContextMenuTarget;
+    const providerId = menuItemId.slice(separatorIndex + 1);
+
+    const query = {
+      selection: info.selectionText,
+      link: info.linkUrl,
+      page: info.pageUrl,
+    }[target]?.trim();
+
+    if (!query) {
+      return;
+    }
+
     try {
-      // Validate URL to prevent security issues
-      const validUrl = this.validateUrl(url);
-      if (!validUrl) {
-        throw new Error('Invalid URL provided');
+      const settings = await getSettings();
+      const provider = settings.providers.find((entry) => entry.id === providerId);
+      if (!provider) {
+        throw new Error(`Unknown provider: ${providerId}`);
+      }
+
+      await this.openProviderTab(buildProviderUrl(provider.urlTemplate, query), {
+        provider,
+        sourceTab: tab,
+        history: {
+          query,
+          providerId: provider.id,
+          providerName: provider.name,
+          sourceUrl: tab?.url ?? info.pageUrl ?? '',
+          pageTitle: tab?.title ?? '',
+        },
+      });
+    } catch (error) {
+      console.error('Failed to handle context menu click:', error);
+    }
+  }
+
+  private async handleCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+    try {
+      const settings = await getSettings();
+      if (!settings.enabled) {
+        return;
       }
 
-      // Open new tab with provider URL
-      await chrome.tabs.create({
-        url: validUrl,
-        active: true, // Open in foreground
+      const provider = this.getProviderForCommand(command, settings);
+      if (!provider) {
+        console.warn('No provider assigned to command:', command);
+        return;
+      }
+
+      const activeTab = tab ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+      if (activeTab?.id === undefined) {
+        return;
+      }
+
+      const request: TabMessage<'GET_SELECTION'> = { type: 'GET_SELECTION' };
+      const response: SelectionResponse | undefined = await chrome.tabs.sendMessage(activeTab.id, request);
+      const text = response?.text?.trim();
+      if (!text) {
+        return;
+      }
+
+      await this.openProviderTab(buildProviderUrl(provider.urlTemplate, text), {
+        provider,
+        sourceTab: activeTab,
+        history: {
+          query: text,
+          providerId: provider.id,
+          providerName: provider.name,
+          sourceUrl: activeTab.url ?? '',
+          pageTitle: activeTab.title ?? '',
+        },
       });
+    } catch (error) {
+      // Pages without the content script (e.g. chrome:// URLs) or a focused frame cannot report a selection
+      console.error('Failed to handle command:', command, error);
+    }
+  }
+
+  private getProviderForCommand(command: string, settings: Settings): ProviderConfig | undefined {
+    // Slots follow the toolbar: slot 1 is the first enabled provider, and so on
+    const enabledProviders = settings.providers.filter((provider) => provider.enabled);
+
+    if (command === 'search-default') {
+      return enabledProviders[0];
+    }
+
+    if (command.startsWith(PROVIDER_SLOT_COMMAND_PREFIX)) {
+      const slot = Number(command.slice(PROVIDER_SLOT_COMMAND_PREFIX.length));
+      return enabledProviders[slot - 1];
+    }
+
+    return undefined;
+  }
+
+  private async openProviderTab(url: string, options: OpenTabOptions = {}): Promise<chrome.tabs.Tab | undefined> {
+    const { provider, sourceTab, background = false, history, offset = 0, groupBySource = true, handoffText } = options;
+    let tab: chrome.tabs.Tab | undefined;
+    try {
+      // Validate URL to prevent security issues; provider options are checked along with the rest
+      const validUrl = await this.validateUrl(provider ? this.withProviderOptions(url, provider) : url);
+      if (!validUrl) {
+        throw new ProtocolError('INVALID_URL', 'Invalid URL provided');
+      }
+
+      const behavior = options.behavior ?? provider?.tabBehavior ?? DEFAULT_TAB_BEHAVIOR;
+      if (behavior === 'window') {
+        tab = await this.openPopupWindow(validUrl, sourceTab, background);
+      } else if (behavior === 'reuse' && provider) {
+        tab = await this.reuseTab(provider.id, validUrl, background);
+      }
+
+      if (!tab && behavior !== 'window') {
+        tab = await chrome.tabs.create({
+          url: validUrl,
+          active: !background,
+          // 'end' keeps Chrome's default of appending to the tab strip
+          ...(behavior !== 'end' && sourceTab?.id !== undefined
+            ? { windowId: sourceTab.windowId, index: sourceTab.index + 1 + offset, openerTabId: sourceTab.id }
+            : {}),
+        });
+        if (behavior === 'reuse' && provider && tab.id !== undefined) {
+          this.reusableTabs.set(provider.id, tab.id).catch((error) => {
+            console.error('Failed to remember reusable tab:', error);
+          });
+        }
+        if (groupBySource && sourceTab && tab.id !== undefined) {
+          // Grouping is best-effort; the tab is already open
+          this.addToSourceGroup(tab.id, sourceTab, history?.pageTitle).catch((error) => {
+            console.error('Failed to group tab:', error);
+          });
+        }
+      }
+
+      if (handoffText && tab?.id !== undefined) {
+        this.handoffs.set(tab.id, createHandoff(handoffText, validUrl, HANDOFF_TTL_MS));
+      }
+
+      // Searches from incognito windows never reach the history store
+      if (history && !sourceTab?.incognito) {
+        // Recording is best-effort; the tab is already open
+        this.recordHistory(history).catch((error) => {
+          console.error('Failed to record history:', error);
+        });
+      }
     } catch (error) {
       console.error('Error opening tab:', error);
       throw error;
     }
+    return tab;
+  }
+
+  private async addToSourceGroup(tabId: number, sourceTab: chrome.tabs.Tab, pageTitle?: string): Promise<void> {
+    const settings = await getSettings();
+    if (!settings.groupTabsBySource || sourceTab.id === undefined) {
+      return;
+    }
+
+    const existingGroupId = await this.sourceGroups.get(sourceTab.id);
+    if (existingGroupId !== undefined) {
+      try {
+        await chrome.tabs.group({ groupId: existingGroupId, tabIds: tabId });
+        return;
+      } catch (_error) {
+        // The group was closed or ungrouped; start a new one
+      }
+    }
+
+    const groupId = await chrome.tabs.group({ tabIds: tabId, createProperties: { windowId: sourceTab.windowId } });
+    const title = sourceTab.title || pageTitle || (sourceTab.url ? new URL(sourceTab.url).hostname : '');
+    await chrome.tabGroups.update(groupId, { title: toGroupTitle(title) });
+    await this.sourceGroups.set(sourceTab.id, groupId);
+  }
+
+  private async openPopupWindow(
+    url: string,
+    sourceTab: chrome.tabs.Tab | undefined,
+    background: boolean
+  ): Promise<chrome.tabs.Tab | undefined> {
+    const current =
+      sourceTab?.windowId !== undefined
+        ? await chrome.windows.get(sourceTab.windowId)
+        : await chrome.windows.getLastFocused();
+
+    // Dock against the right edge of the current window so both stay on screen
+    const width = Math.min(POPUP_WINDOW_WIDTH, current.width ?? POPUP_WINDOW_WIDTH);
+    const popup = await chrome.windows.create({
+      url,
+      type: 'popup',
+      focused: !background,
+      width,
+      height: current.height,
+      top: current.top,
+      left: current.left !== undefined && current.width !== undefined ? current.left + current.width - width : undefined,
+    });
+    return popup?.tabs?.[0];
+  }
+
+  /** Navigate the provider's previous tab, if it is still open. Returns undefined when there is none. */
+  private async reuseTab(providerId: string, url: string, background: boolean): Promise<chrome.tabs.Tab | undefined> {
+    // Without the stored id the search simply opens a fresh tab
+    const tabId = await this.reusableTabs.get(providerId).catch(() => undefined);
+    if (tabId === undefined) {
+      return undefined;
+    }
+
+    try {
+      const tab = await chrome.tabs.update(tabId, { url, active: !background });
+      if (!background && tab?.windowId !== undefined) {
+        await chrome.windows.update(tab.windowId, { focused: true });
+      }
+      return tab;
+    } catch (_error) {
+      // The tab no longer exists
+      this.reusableTabs.delete(providerId).catch(() => undefined);
+      return undefined;
+    }
+  }
+
+  /**
+   * Text waiting for the sender's tab. Content scripts ask once they are ready, so
+   * nothing is lost when a page sets up its listeners well after it has loaded.
+   */
+  private getHandoff(sender: chrome.runtime.MessageSender): string | null {
+    const tabId = sender.tab?.id;
+    // The prompt box is in the provider's top frame
+    if (tabId === undefined || sender.frameId !== 0) {
+      return null;
+    }
+    const handoff = this.handoffs.get(tabId);
+    if (!handoff) {
+      return null;
+    }
+    if (handoff.expiresAt < Date.now()) {
+      this.handoffs.delete(tabId);
+      return null;
+    }
+    // Kept for the provider's page when the tab is somewhere else for now, e.g. a login redirect
+    return isHandoffTarget(handoff, sender.url) ? handoff.text : null;
   }
 
-  private validateUrl(url: string): string | null {
+  private handleTabRemoved(tabId: number): void {
+    this.handoffs.delete(tabId);
+    Promise.all([this.sourceGroups.delete(tabId), this.reusableTabs.deleteValue(tabId)]).catch((error) => {
+      console.error('Failed to forget closed tab:', error);
+    });
+  }
+
+  private async recordHistory(history: HistoryContext): Promise<void> {
+    const settings = await getSettings();
+    if (!settings.history.enabled) {
+      return;
+    }
+
+    await addHistoryEntry({ ...history, timestamp: Date.now() });
+    await pruneHistory(settings.history);
+  }
+
+  /** Add the provider's advanced options (locale, model, ...) to a URL built from its template. */
+  private withProviderOptions(url: string, provider: ProviderConfig): string {
+    try {
+      return applyProviderOptions(url, provider);
+    } catch (_error) {
+      // Left for validateUrl to reject
+      return url;
+    }
+  }
+
+  private async validateUrl(url: string): Promise<string | null> {
     try {
       // Parse URL to validate it
       const parsedUrl = new URL(url);
@@ -189,12 +570,8 @@ class BackgroundService {
         return null;
       }
 
-      // Allow only trusted domains
-      const allowedDomains = [
-        'www.google.com',
-        'chatgpt.com',
-        'claude.ai',
-      ];
+      // Allow only domains that belong to a registered provider
+      const allowedDomains = await this.getAllowedDomains();
 
       if (!allowedDomains.includes(parsedUrl.hostname)) {
         console.warn('Untrusted domain blocked:', parsedUrl.hostname);
@@ -208,6 +585,24 @@ class BackgroundService {
     }
   }
 
+  private async getAllowedDomains(): Promise<string[]> {
+    const settings = await getSettings();
+    const domains: string[] = [];
+
+    for (const provider of settings.providers) {
+      try {
+        const hostname = new URL(provider.urlTemplate.split(QUERY_PLACEHOLDER).join('')).hostname;
+        if (!domains.includes(hostname)) {
+          domains.push(hostname);
+        }
+      } catch (_error) {
+        // Skip malformed templates; they can never produce a valid URL anyway
+      }
+    }
+
+    return domains;
+  }
+
   private handleInstalled(details: chrome.runtime.InstalledDetails): void {
     if (details.reason === 'install') {
       console.log('Select to Search extension installed');
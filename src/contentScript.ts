@@ -1,19 +1,176 @@
 // Content script for selection detection and floating UI
 
-interface Settings {
-  enabled: boolean;
-  providers: {
-    chatgpt: boolean;
-    google: boolean;
-    claude: boolean;
-  };
-  affordanceMode: 'quick-actions';
-  theme?: 'light' | 'dark';
+import {
+  defaultSettings,
+  ProviderConfig,
+  SelectionAction,
+  SelectionKind,
+  Settings,
+  Theme,
+  TriggerModifier,
+  TriggerSettings,
+} from './utils/settings';
+import {
+  FrameSelectionDetails,
+  MessageResponse,
+  PageContext,
+  PROTOCOL_VERSION,
+  RequestMap,
+  RequestType,
+  ResponseMap,
+  TabMessage,
+} from './utils/protocol';
+import { formatMessage, LocaleMessages, MessageKey, Substitutions } from './utils/i18n';
+import { buildProviderUrl } from './utils/providers';
+import { classifySelection } from './utils/selectionKinds';
+
+
+const CONTEXT_BLOCK_SELECTOR = 'p, li, blockquote, pre, td, th, dd, dt, figcaption, article, section, div';
+
+// A selection in this document; focus is where the user stopped selecting
+interface SelectionSnapshot {
+  text: string;
+  range: Range;
+  focus: { node: Node; offset: number };
+}
+
+interface RectLike {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// Content scripts in child frames don't render a toolbar. They report where
+// their selection is to the parent with postMessage, each frame on the way
+// translating the rect into its own viewport, and the top frame shows the only
+// toolbar. Every page up the chain can read these messages, so they carry no
+// text: the selection and its page context go to the top frame through the
+// background worker (FRAME_SELECTION), matched up by id. Page scripts can post
+// look-alike messages, but that gets them nothing they couldn't do by selecting
+// text in their own frame.
+const FRAME_MESSAGE_SOURCE = 'select-to-search-frame';
+
+// Rects are in the viewport of the frame the message came from
+interface FrameSelection {
+  id: string;
+  rect: RectLike;
+  touch: boolean;
+  // Background tone behind the selection, for the adaptive theme
+  tone: 'light' | 'dark';
+}
+
+type FrameMessageBody =
+  | { type: 'selection'; selection: FrameSelection }
+  | { type: 'moved'; rect: RectLike }
+  | { type: 'clear' }
+  | { type: 'focus-toolbar' };
+
+type FrameMessage = FrameMessageBody & { source: typeof FRAME_MESSAGE_SOURCE };
+
+// The child frame element a selection was reported from
+interface FramePosition {
+  frame: HTMLIFrameElement | HTMLFrameElement;
+  selection: FrameSelection;
+}
+
+interface FrameAnchor extends FramePosition {
+  details: FrameSelectionDetails;
+}
+
+const isRectLike = (value: unknown): value is RectLike =>
+  typeof value === 'object' &&
+  value !== null &&
+  ['top', 'left', 'width', 'height'].every(key => typeof (value as Record<string, unknown>)[key] === 'number');
+
+function isFrameMessage(value: unknown): value is FrameMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const message = value as Record<string, unknown>;
+  if (message.source !== FRAME_MESSAGE_SOURCE) {
+    return false;
+  }
+  switch (message.type) {
+    case 'selection': {
+      const selection = message.selection as Partial<FrameSelection> | undefined;
+      return (
+        typeof selection?.id === 'string' &&
+        isRectLike(selection.rect) &&
+        typeof selection.touch === 'boolean' &&
+        (selection.tone === 'light' || selection.tone === 'dark')
+      );
+    }
+    case 'moved':
+      return isRectLike(message.rect);
+    case 'clear':
+    case 'focus-toolbar':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Prompts for the AI actions, in the interface language and filled in like prompt templates
+const EXPLAIN_PROMPTS: Partial<Record<SelectionKind, MessageKey>> = {
+  code: 'promptExplainCode',
+  error: 'promptExplainError',
+  math: 'promptSolve',
+};
+const DEFAULT_EXPLAIN_PROMPT: MessageKey = 'promptExplain';
+const TRANSLATE_PROMPT: MessageKey = 'promptTranslate';
+
+interface ContextualAction {
+  label: string;
+  description: string;
+  run: (background: boolean) => void;
+}
+
+// --- Trigger rules ---
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function isModifierHeld(event: MouseEvent, modifier: TriggerModifier): boolean {
+  switch (modifier) {
+    case 'alt':
+      return event.altKey;
+    case 'shift':
+      return event.shiftKey;
+    case 'ctrl':
+      return event.ctrlKey;
+    case 'meta':
+      return event.metaKey;
+    default:
+      return true;
+  }
+}
+
+/** Whether a selection is long enough, short enough and not excluded by a pattern. */
+function passesTriggerRules(text: string, trigger: TriggerSettings): boolean {
+  const { minChars, maxChars, minWords, maxWords, exclusions } = trigger;
+  if (text.length < minChars || (maxChars && text.length > maxChars)) {
+    return false;
+  }
+  if (minWords || maxWords) {
+    const words = countWords(text);
+    if (words < minWords || (maxWords && words > maxWords)) {
+      return false;
+    }
+  }
+  return !exclusions.some(pattern => {
+    try {
+      return new RegExp(pattern).test(text);
+    } catch (_error) {
+      // Patterns are validated when saved; skip any that slipped through
+      return false;
+    }
+  });
 }
 
 interface FloatingUI {
   container: HTMLElement | null;
   buttons: HTMLElement[];
+  menu: HTMLElement | null;
   isVisible: boolean;
 }
 
@@ -24,25 +181,62 @@ class SelectionHandler {
   private readonly NAMESPACE = 'select-to-search';
   private shadowHost: HTMLElement;
   private shadowRoot: ShadowRoot;
-  private readonly PROVIDER_URLS = {
-    google: (text: string) => `https://www.google.com/search?q=${encodeURIComponent(text)}`,
-    // Include both q and input params so ChatGPT prefills reliably across variants
-    chatgpt: (text: string) => {
-      const encoded = encodeURIComponent(text);
-      return `https://chatgpt.com/?q=${encoded}&input=${encoded}`;
-    },
-    claude: (text: string) => `https://claude.ai/new?q=${encodeURIComponent(text)}`,
-  };
+  // Alt+Shift+F moves focus from the page into the visible toolbar
+  private readonly TOOLBAR_FOCUS_KEY = 'KeyF';
+  // Range the toolbar was shown for, used to capture page context on demand
+  private selectionRange: Range | null = null;
+  private selectionFocus: SelectionSnapshot['focus'] | null = null;
+  // Set instead of selectionRange when the toolbar is shown for a child frame's selection
+  private frameAnchor: FrameAnchor | null = null;
+  // The two halves of the latest child frame selection, shown once both have arrived
+  private pendingFramePosition: FramePosition | null = null;
+  private pendingFrameDetails: FrameSelectionDetails | null = null;
+  // Open shadow roots the last mouse or key event passed through, searched for the selection
+  private selectionRoots: ShadowRoot[] = [];
+  private readonly isTopFrame = window === window.top;
+  // Child frames only connect to the background worker once text is selected in
+  // them; most embedded frames (ads, widgets) never need settings at all.
+  private connected = false;
+  private settingsLoaded = false;
+  // The latest selection made before the settings arrived, checked once they do
+  private pendingSelection: (() => void) | null = null;
+  // Pointer behind the last selection. Touch selections settle through a burst of
+  // selectionchange events (long-press, then dragging the handles) and get a
+  // roomier toolbar placed clear of the native handles and selection menu.
+  private pointerType = 'mouse';
+  private touchMode = false;
+  private readonly TOUCH_SELECTION_DELAY_MS = 400;
+  // With a show delay, the pointer must stay within this distance until it runs out
+  private readonly HOVER_INTENT_DISTANCE = 8;
+  private restingPoint: { x: number; y: number } | null = null;
+  private readonly TOUCH_HANDLE_CLEARANCE = 32;
+  private readonly TOOLBAR_OFFSET = 6;
+  private readonly TOAST_DURATION_MS = 4000;
+  private readonly HANDOFF_TIMEOUT_MS = 10000;
+  // Where focus and the selection were before the toolbar took focus, restored on Escape
+  private focusReturn: { element: Element | null; range: Range | null } | null = null;
+  private liveRegion: HTMLElement;
+  // Keeps the toolbar anchored to the selection while the page scrolls or reflows
+  private repositionFrame: number | null = null;
+  private anchorOrigin: { top: number; left: number } | null = null;
+  private readonly layoutObserver = new ResizeObserver(() => this.scheduleReposition());
+  // Followed live by the 'system' theme
+  private readonly colorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+  // Messages for the UI language chosen on the options page; null follows the browser language
+  private messages: LocaleMessages | null = null;
+  private messagesLanguage = '';
 
   private hasRuntime(): boolean {
     return Boolean(typeof chrome !== 'undefined' && chrome?.runtime?.id);
   }
 
   constructor() {
-    this.settings = this.getDefaultSettings();
+    // Until the stored settings arrive
+    this.settings = defaultSettings;
     this.floatingUI = {
       container: null,
       buttons: [],
+      menu: null,
       isVisible: false,
     };
 
@@ -50,6 +244,8 @@ class SelectionHandler {
     this.shadowHost = this.createShadowHost();
     this.shadowRoot = this.shadowHost.attachShadow({ mode: 'open' });
     this.injectStyles();
+    this.liveRegion = this.createLiveRegion();
+    this.applyLanguage();
 
     this.init();
   }
@@ -67,7 +263,7 @@ class SelectionHandler {
       top: 0 !important;
       left: 0 !important;
     `;
-    document.body.appendChild(host);
+    // Attached once settings confirm the extension is active on this site
     return host;
   }
 
@@ -86,6 +282,13 @@ class SelectionHandler {
         --space-xxl: 32px;
         --space-icon-gap: 4px;
 
+        /* Toolbar size tokens; the comfortable layout overrides them */
+        --toolbar-height: 30px;
+        --toolbar-padding: 4px;
+        --button-width: 24px;
+        --button-height: 22px;
+        --icon-size: 16px;
+
         /* Font size tokens */
         --font-size-xs: 11px;
         --font-size-sm: 12px;
@@ -148,8 +351,8 @@ class SelectionHandler {
         display: inline-flex;
         align-items: center;
         gap: var(--space-icon-gap);
-        padding: 4px;
-        height: 30px;
+        padding: var(--toolbar-padding);
+        height: var(--toolbar-height);
         background: var(--color-bg-primary);
         border: none;
         border-radius: 4px;
@@ -187,8 +390,8 @@ class SelectionHandler {
       }
 
       .select-to-search-icon-button {
-        width: 24px;
-        height: 22px;
+        width: var(--button-width);
+        height: var(--button-height);
         border-radius: 4px;
         transition: background-color var(--transition-fast), box-shadow var(--transition-fast), transform var(--transition-fast);
       }
@@ -212,20 +415,15 @@ class SelectionHandler {
 
       .select-to-search-icon {
         display: block;
-        width: 16px;
-        height: 16px;
+        width: var(--icon-size);
+        height: var(--icon-size);
         object-fit: contain;
         pointer-events: none;
       }
 
       .select-to-search-icon-google {
-        width: 18px;
-        height: 18px;
-      }
-
-      .select-to-search-icon-claude {
-        width: 16px;
-        height: 16px;
+        width: calc(var(--icon-size) + 2px);
+        height: calc(var(--icon-size) + 2px);
       }
 
       :host([data-theme="dark"]) .select-to-search-icon-chatgpt {
@@ -253,6 +451,190 @@ class SelectionHandler {
         outline-offset: 2px;
       }
 
+      .select-to-search-template-toggle {
+        width: 12px;
+        height: var(--button-height);
+        margin-inline-start: calc(var(--space-icon-gap) * -1);
+        border-radius: var(--radius-sm);
+        color: var(--color-text-secondary);
+        font-size: 9px;
+        transition: background-color var(--transition-fast);
+      }
+
+      .select-to-search-template-toggle:hover,
+      .select-to-search-template-toggle:focus-visible,
+      .select-to-search-template-toggle[aria-expanded="true"] {
+        background-color: var(--color-tray-hover);
+        color: var(--color-text-primary);
+      }
+
+      .select-to-search-template-toggle:focus-visible {
+        outline: 2px solid var(--color-tray-focus);
+        outline-offset: 2px;
+      }
+
+      .select-to-search-ask-all {
+        height: var(--button-height);
+        padding: 0 var(--space-xs);
+        border-radius: 4px;
+        color: var(--color-text-secondary);
+        font-size: var(--font-size-sm);
+        font-weight: 600;
+        transition: background-color var(--transition-fast), color var(--transition-fast);
+      }
+
+      .select-to-search-ask-all:hover,
+      .select-to-search-ask-all:focus-visible {
+        background-color: var(--color-tray-hover);
+        color: var(--color-text-primary);
+      }
+
+      .select-to-search-ask-all:focus-visible {
+        outline: 2px solid var(--color-tray-focus);
+        outline-offset: 2px;
+      }
+
+      /* Contextual actions for the kind of selection (link, error, ...) */
+      .select-to-search-action {
+        height: var(--button-height);
+        padding: 0 var(--space-xs);
+        border-radius: 4px;
+        color: var(--color-text-primary);
+        font-size: var(--font-size-sm);
+        white-space: nowrap;
+        transition: background-color var(--transition-fast);
+      }
+
+      .select-to-search-action:hover,
+      .select-to-search-action:focus-visible {
+        background-color: var(--color-tray-hover);
+      }
+
+      .select-to-search-action:focus-visible {
+        outline: 2px solid var(--color-tray-focus);
+        outline-offset: 2px;
+      }
+
+      .select-to-search-site-toggle {
+        width: 20px;
+        height: var(--button-height);
+        margin-inline-start: var(--space-xxs);
+        padding-inline-start: var(--space-xs);
+        border-inline-start: 1px solid var(--color-tray-border) !important;
+        color: var(--color-text-secondary);
+        font-size: var(--font-size-sm);
+        transition: color var(--transition-fast);
+      }
+
+      .select-to-search-site-toggle:hover,
+      .select-to-search-site-toggle:focus-visible {
+        color: var(--color-text-primary);
+      }
+
+      .select-to-search-site-toggle:focus-visible {
+        outline: 2px solid var(--color-tray-focus);
+        outline-offset: 2px;
+      }
+
+      /* Layout options */
+      .select-to-search-container[data-size="comfortable"] {
+        --toolbar-height: 40px;
+        --toolbar-padding: 6px;
+        --button-width: 32px;
+        --button-height: 28px;
+        --icon-size: 20px;
+        --space-icon-gap: 6px;
+        font-size: var(--font-size-sm);
+      }
+
+      .select-to-search-container[data-labels="icon-label"] .select-to-search-icon-button {
+        width: auto;
+        min-width: var(--button-width);
+        gap: var(--space-xs);
+        padding: 0 var(--space-xs);
+      }
+
+      .select-to-search-button-label {
+        white-space: nowrap;
+      }
+
+      .select-to-search-container[data-orientation="vertical"] {
+        flex-direction: column;
+        align-items: stretch;
+        height: auto;
+      }
+
+      .select-to-search-container[data-orientation="vertical"] .select-to-search-icon-button,
+      .select-to-search-container[data-orientation="vertical"] .select-to-search-ask-all,
+      .select-to-search-container[data-orientation="vertical"] .select-to-search-action {
+        justify-content: flex-start;
+      }
+
+      .select-to-search-container[data-orientation="vertical"][data-labels="icon"] .select-to-search-icon-button {
+        justify-content: center;
+      }
+
+      .select-to-search-container[data-orientation="vertical"] .select-to-search-template-toggle {
+        width: auto;
+        height: 12px;
+        margin-inline-start: 0;
+        margin-top: calc(var(--space-icon-gap) * -1);
+      }
+
+      .select-to-search-container[data-orientation="vertical"] .select-to-search-site-toggle {
+        width: auto;
+        margin-inline-start: 0;
+        margin-top: var(--space-xxs);
+        padding-inline-start: 0;
+        padding-top: var(--space-xs);
+        border-inline-start: 0 !important;
+        border-top: 1px solid var(--color-tray-border) !important;
+      }
+
+      .select-to-search-container-picker {
+        padding: var(--space-xxs);
+        border-radius: var(--radius-full);
+      }
+
+      /* Touch: finger-sized targets */
+      .select-to-search-container-touch {
+        height: auto;
+        padding: var(--space-xs);
+      }
+
+      .select-to-search-container-touch .select-to-search-icon-button,
+      .select-to-search-container-touch .select-to-search-site-toggle {
+        width: 40px;
+        height: 40px;
+      }
+
+      .select-to-search-container-touch .select-to-search-template-toggle {
+        width: 24px;
+        height: 40px;
+      }
+
+      .select-to-search-container-touch .select-to-search-ask-all,
+      .select-to-search-container-touch .select-to-search-action {
+        height: 40px;
+        padding: 0 var(--space-md);
+      }
+
+      .select-to-search-container-touch .select-to-search-icon {
+        width: 22px;
+        height: 22px;
+      }
+
+      .select-to-search-container-touch .select-to-search-picker,
+      .select-to-search-container-touch .select-to-search-picker-item {
+        min-height: 44px;
+        font-size: var(--font-size-base);
+      }
+
+      .select-to-search-picker-caret {
+        margin-inline-start: var(--space-xs);
+        font-size: 9px;
+      }
+
       .select-to-search-picker-menu {
         position: fixed;
         display: flex;
@@ -279,7 +661,7 @@ class SelectionHandler {
         font-weight: 500;
         cursor: pointer;
         transition: background-color var(--transition-fast);
-        text-align: left;
+        text-align: start;
         outline: none;
       }
 
@@ -292,10 +674,127 @@ class SelectionHandler {
         outline-offset: -2px;
       }
 
+      .select-to-search-picker-item .select-to-search-icon {
+        margin-inline-end: var(--space-sm);
+      }
+
       .select-to-search-picker-item:not(:last-child) {
         border-bottom: 1px solid var(--color-border);
       }
 
+      .select-to-search-panel {
+        width: 360px;
+        max-width: calc(100vw - 16px);
+        padding: var(--space-sm);
+        gap: var(--space-sm);
+        color: var(--color-text-primary);
+      }
+
+      .select-to-search-panel-text {
+        margin: 0;
+        max-height: 220px;
+        overflow: auto;
+        white-space: pre-wrap;
+        overflow-wrap: anywhere;
+        font-family: inherit;
+        font-size: var(--font-size-xs);
+        line-height: 1.45;
+      }
+
+      .select-to-search-panel-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: var(--space-xs);
+      }
+
+      .select-to-search-panel-actions-column {
+        flex-direction: column;
+        align-items: stretch;
+      }
+
+      .select-to-search-panel-actions .select-to-search-picker-item {
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-sm);
+      }
+
+      .select-to-search-length-warning {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        width: 16px;
+        height: 16px;
+        margin-inline-start: var(--space-xxs);
+        border-radius: var(--radius-full);
+        background: #f0ad4e;
+        color: #212529;
+        font-size: var(--font-size-xs);
+        font-weight: 700;
+        cursor: help;
+      }
+
+      .select-to-search-toast {
+        position: fixed;
+        left: 50%;
+        bottom: var(--space-xl);
+        transform: translateX(-50%);
+        max-width: min(420px, calc(100vw - 32px));
+        padding: var(--space-sm) var(--space-md);
+        border-radius: var(--radius-md);
+        background: var(--color-text-primary);
+        color: var(--color-bg-primary);
+        box-shadow: 0 4px 12px var(--color-shadow);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+        font-size: var(--font-size-sm);
+        z-index: var(--z-modal);
+      }
+
+      .select-to-search-live-region {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip-path: inset(50%);
+        white-space: nowrap;
+      }
+
+      /* High contrast: shadows are dropped, so outline surfaces with system colors */
+      @media (forced-colors: active) {
+        .select-to-search-container,
+        .select-to-search-picker-menu,
+        .select-to-search-panel,
+        .select-to-search-toast {
+          background: Canvas;
+          color: CanvasText;
+          border: 1px solid CanvasText;
+        }
+
+        .select-to-search-button {
+          color: ButtonText;
+        }
+
+        .select-to-search-icon-button:hover,
+        .select-to-search-template-toggle:hover,
+        .select-to-search-ask-all:hover,
+        .select-to-search-action:hover,
+        .select-to-search-site-toggle:hover,
+        .select-to-search-picker-item:hover {
+          background: Highlight;
+          color: HighlightText;
+        }
+
+        .select-to-search-button:focus-visible,
+        .select-to-search-picker-item:focus-visible {
+          outline: 2px solid Highlight;
+          outline-offset: 2px;
+        }
+
+        .select-to-search-length-warning {
+          background: Mark;
+          color: MarkText;
+          border: 1px solid CanvasText;
+        }
+      }
+
       @media (prefers-reduced-motion: reduce) {
         .select-to-search-container,
         .select-to-search-button,
@@ -308,155 +807,658 @@ class SelectionHandler {
     this.shadowRoot.appendChild(style);
   }
 
-  private getDefaultSettings(): Settings {
-    return {
-      enabled: true,
-      providers: {
-        chatgpt: true,
-        google: true,
-        claude: false,
-      },
-      affordanceMode: 'quick-actions',
-      theme: 'light',
-    };
+  // Announcements for screen readers; the region must exist before its text changes to be read
+  private createLiveRegion(): HTMLElement {
+    const region = document.createElement('div');
+    region.className = `${this.NAMESPACE}-live-region`;
+    region.setAttribute('role', 'status');
+    region.setAttribute('aria-live', 'polite');
+    this.shadowRoot.appendChild(region);
+    return region;
+  }
+
+  private announce(message: string): void {
+    // Clear first so repeating the same message is announced again
+    this.liveRegion.textContent = '';
+    window.setTimeout(() => {
+      this.liveRegion.textContent = message;
+    }, 50);
   }
 
   private init(): void {
-    // Load settings from background script
-    this.loadSettings();
+    if (this.isTopFrame) {
+      this.connect();
+      // Provider tabs opened with text too long for the URL
+      this.requestHandoff();
+    }
 
     // Listen for selection events
-    document.addEventListener('mouseup', this.handleMouseUp.bind(this));
+    document.addEventListener('pointerdown', this.handlePointerDown.bind(this), true);
+    document.addEventListener('pointerup', this.handlePointerUp.bind(this));
     document.addEventListener('keyup', this.handleKeyUp.bind(this));
 
     // Listen for dismissal events
     document.addEventListener('click', this.handleDocumentClick.bind(this));
     document.addEventListener('keydown', this.handleKeyDown.bind(this));
     document.addEventListener('scroll', this.handleScroll.bind(this), true);
+    window.addEventListener('resize', this.handleScroll.bind(this));
     document.addEventListener('selectionchange', this.handleSelectionChange.bind(this));
+    this.colorSchemeQuery.addEventListener('change', this.handleColorSchemeChange);
+    window.addEventListener('message', this.handleFrameMessage);
+
+    // Clean up on page unload
+    window.addEventListener('beforeunload', this.cleanup.bind(this));
+  }
+
+  /** Load settings and start listening to the background worker. */
+  private connect(): void {
+    if (this.connected) {
+      return;
+    }
+    this.connected = true;
+    this.loadSettings();
 
     // Listen for settings updates from background script
     if (this.hasRuntime()) {
-      chrome.runtime.onMessage.addListener((message) => {
+      chrome.runtime.onMessage.addListener((message: TabMessage, _sender, sendResponse) => {
+        if (message.type === 'GET_SELECTION') {
+          // Every frame gets this; only the innermost focused one answers
+          if (!this.hasInnermostFocus()) {
+            return;
+          }
+          // Keyboard commands ask for the selection, so editable fields count here too
+          sendResponse({ text: this.getSelectedText() });
+          return;
+        }
+
+        if (message.type === 'FRAME_SELECTION') {
+          // Only ever sent to the top frame
+          const { id, text, context } = message;
+          this.pendingFrameDetails = { id, text, context };
+          this.matchFrameSelection();
+          return;
+        }
+
         if (message.type === 'SETTINGS_UPDATED') {
-          const wasEnabled = this.settings.enabled;
+          const wasActive = this.isActive();
           this.settings = message.settings;
-          this.applyTheme(this.settings.theme || 'light');
+          this.applyTheme();
+          this.loadMessages();
           this.hideFloatingUI();
 
-          // Handle Shadow DOM host based on enabled state
-          if (wasEnabled && !this.settings.enabled) {
+          // Handle Shadow DOM host based on enabled state and site rules
+          if (wasActive && !this.isActive()) {
             // Disabled: remove Shadow DOM host from DOM
             this.detachShadowHost();
-          } else if (!wasEnabled && this.settings.enabled) {
+          } else if (!wasActive && this.isActive()) {
             // Enabled: re-add Shadow DOM host to DOM
             this.attachShadowHost();
           }
         }
       });
     }
-
-    // Clean up on page unload
-    window.addEventListener('beforeunload', this.cleanup.bind(this));
   }
 
   private loadSettings(): void {
     if (this.hasRuntime()) {
-      chrome.runtime.sendMessage({ type: 'GET_SETTINGS' }, (response) => {
-        if (chrome.runtime.lastError) {
-          console.error('Failed to load settings:', chrome.runtime.lastError);
+      this.sendRequest('GET_SETTINGS', {}, (response) => {
+        if (!response?.ok) {
+          console.error('Failed to load settings:', chrome.runtime.lastError ?? response?.error);
+          // Keep working with the defaults
+          this.attachShadowHost();
+          this.finishSettingsLoad();
           return;
         }
-        if (response) {
-          this.settings = response;
-          this.applyTheme(this.settings.theme || 'light');
+        this.settings = response.data;
+        this.applyTheme();
+        this.loadMessages();
 
-          // If extension is disabled on load, detach the Shadow DOM host
-          if (!this.settings.enabled) {
-            this.detachShadowHost();
-          }
+        // Only attach the Shadow DOM host when enabled and allowed on this site
+        if (this.isActive()) {
+          this.attachShadowHost();
         }
+        this.finishSettingsLoad();
       });
+    } else {
+      this.attachShadowHost();
+      this.finishSettingsLoad();
     }
   }
 
-  private applyTheme(theme: 'light' | 'dark'): void {
-    // Apply theme to shadow host instead of document element
-    this.shadowHost.dataset.theme = theme;
+  private finishSettingsLoad(): void {
+    this.settingsLoaded = true;
+    const pending = this.pendingSelection;
+    this.pendingSelection = null;
+    pending?.();
   }
 
-  private attachShadowHost(): void {
-    if (!this.shadowHost.parentNode) {
-      document.body.appendChild(this.shadowHost);
+  /** Run a selection check now, or once the settings it depends on have arrived. */
+  private whenSettingsLoaded(check: () => void): void {
+    if (this.settingsLoaded) {
+      check();
+    } else if (this.connected) {
+      this.pendingSelection = check;
     }
   }
 
-  private detachShadowHost(): void {
-    if (this.shadowHost.parentNode) {
-      this.shadowHost.remove();
-    }
+  private isActive(): boolean {
+    return this.settings.enabled && this.isSiteAllowed();
   }
 
+  private isSiteAllowed(): boolean {
+    const { defaultAction, rules } = this.settings.siteRules;
+    const matching = rules.filter(rule => this.matchesSitePattern(rule.pattern, location.hostname));
 
-  private handleMouseUp(_event: MouseEvent): void {
-    if (!this.settings.enabled) return;
+    if (matching.some(rule => rule.action === 'block')) {
+      return false;
+    }
+    if (matching.some(rule => rule.action === 'allow')) {
+      return true;
+    }
+    return defaultAction === 'allow';
+  }
 
-    // Small delay to ensure selection is complete
-    this.selectionTimeout = window.setTimeout(() => {
-      this.checkSelection();
-    }, 10);
+  private matchesSitePattern(pattern: string, hostname: string): boolean {
+    // Plain hostnames match exactly; '*' matches any run of characters (e.g. *.example.com)
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`, 'i').test(hostname);
   }
 
-  private handleKeyUp(event: KeyboardEvent): void {
-    if (!this.settings.enabled) return;
+  private applyTheme(): void {
+    // Apply theme to shadow host instead of document element
+    this.shadowHost.dataset.theme = this.resolveTheme(this.settings.theme || 'light');
+  }
 
-    if (event.key === 'Escape') {
+  /** Fetch the messages for the chosen UI language; the background reads them from the package. */
+  private loadMessages(): void {
+    const language = this.settings.uiLanguage;
+    if (!language || !this.hasRuntime()) {
+      this.messages = null;
+      this.messagesLanguage = '';
+      this.applyLanguage();
+      return;
+    }
+    if (language === this.messagesLanguage) {
       return;
     }
+    this.sendRequest('GET_MESSAGES', { language }, (response) => {
+      if (!response?.ok) {
+        console.error('Failed to load messages:', chrome.runtime.lastError ?? response?.error);
+        return;
+      }
+      // Ignore a response for a language that has been changed again since
+      if (this.settings.uiLanguage === language) {
+        this.messages = response.data;
+        this.messagesLanguage = language;
+        this.applyLanguage();
+      }
+    });
+  }
 
-    // Check selection after key release (for keyboard selection)
-    this.selectionTimeout = window.setTimeout(() => {
-      this.checkSelection();
-    }, 10);
+  // Direction is inherited through the shadow root, so the toolbar, menus and toasts all follow it
+  private applyLanguage(): void {
+    this.shadowHost.lang = this.t('languageCode');
+    this.shadowHost.dir = this.isRtl() ? 'rtl' : 'ltr';
   }
 
-  private handleSelectionChange(): void {
-    // Hide UI when selection is cleared
-    const selection = window.getSelection();
-    if (!selection || selection.isCollapsed) {
-      this.hideFloatingUI();
+  private isRtl(): boolean {
+    return this.t('textDirection') === 'rtl';
+  }
+
+  /** Like t in utils/i18n.ts, but with the language received from the background worker. */
+  private t(key: MessageKey, substitutions?: Substitutions): string {
+    const entry = this.messages?.[key];
+    if (entry) {
+      return formatMessage(entry, substitutions);
+    }
+    try {
+      const values = (Array.isArray(substitutions) ? substitutions : substitutions === undefined ? [] : [substitutions]).map(
+        String,
+      );
+      return chrome.i18n.getMessage(key, values) || key;
+    } catch (_error) {
+      // Extension context invalidated
+      return key;
     }
   }
 
-  private checkSelection(): void {
-    const selection = window.getSelection();
-    if (!selection || selection.isCollapsed) {
-      this.hideFloatingUI();
-      return;
+  private resolveTheme(theme: Theme): 'light' | 'dark' {
+    if (theme === 'adaptive' && this.frameAnchor) {
+      return this.frameAnchor.selection.tone;
     }
+    if (theme === 'adaptive' && this.selectionRange) {
+      return this.getBackgroundTone(this.selectionRange);
+    }
+    // Adaptive falls back to the system until there is a selection to sample
+    if (theme === 'system' || theme === 'adaptive') {
+      return this.colorSchemeQuery.matches ? 'dark' : 'light';
+    }
+    return theme;
+  }
 
-    const selectedText = selection.toString().trim();
-    if (!selectedText) {
-      this.hideFloatingUI();
-      return;
+  private handleColorSchemeChange = (): void => {
+    if (this.settings.theme === 'system') {
+      this.applyTheme();
     }
+  };
 
-    // Check if selection is in an editable element
-    const range = selection.getRangeAt(0);
-    const startElement = range.startContainer;
-    if (this.isInEditableElement(startElement)) {
-      this.hideFloatingUI();
-      return;
+  // Picks the palette whose text reads best on the nearest opaque background
+  // behind the selection: dark toolbars on dark pages and vice versa.
+  private getBackgroundTone(range: Range): 'light' | 'dark' {
+    const start = range.commonAncestorContainer;
+    let element: Element | null = start instanceof Element ? start : start.parentElement;
+
+    while (element) {
+      const match = getComputedStyle(element).backgroundColor.match(
+        /rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/
+      );
+      const alpha = match?.[4] === undefined ? 1 : parseFloat(match[4]) / (match[4].endsWith('%') ? 100 : 1);
+      if (match && alpha > 0) {
+        const [red, green, blue] = match.slice(1, 4).map(channel => {
+          const value = parseFloat(channel) / 255;
+          return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+        });
+        const luminance = 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+        // Above this, black text contrasts better than white (WCAG contrast ratio)
+        return luminance > 0.179 ? 'light' : 'dark';
+      }
+      element = element.parentElement;
     }
 
-    // Show floating UI
-    this.showFloatingUI(selectedText, range, selection);
+    // Nothing painted: the browser's canvas is white unless the page opts into dark
+    return getComputedStyle(document.documentElement).colorScheme === 'dark' ? 'dark' : 'light';
   }
 
-  private isInEditableElement(element: Node): boolean {
-    if (element.nodeType === Node.TEXT_NODE) {
-      element = element.parentElement!;
-    }
+  private attachShadowHost(): void {
+    // Child frames report selections to the top frame, which renders the only toolbar
+    if (!this.isTopFrame) {
+      return;
+    }
+    if (!this.shadowHost.parentNode) {
+      document.body.appendChild(this.shadowHost);
+    }
+  }
+
+  private detachShadowHost(): void {
+    if (this.shadowHost.parentNode) {
+      this.shadowHost.remove();
+    }
+  }
+
+
+  private isEventFromUI(event: Event): boolean {
+    return event.composedPath().includes(this.shadowHost);
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    if (!this.isEventFromUI(event)) {
+      this.pointerType = event.pointerType;
+    }
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (!this.isActive()) return;
+
+    // Interacting with the toolbar itself must not re-render it
+    if (this.isEventFromUI(event)) return;
+    this.selectionRoots = this.getShadowRoots(event);
+    this.whenSettingsLoaded(() => this.handlePointerSelection(event));
+  }
+
+  private handlePointerSelection(event: PointerEvent): void {
+    // Settings that arrived in the meantime may turn the extension off here
+    if (!this.isActive()) return;
+
+    if (event.pointerType === 'touch') {
+      // A long-press selection may still be settling; selectionchange takes it from here
+      this.scheduleTouchCheck();
+      return;
+    }
+
+    // Mouse and pen selections can require a held modifier; keyboard and touch can't hold one
+    if (!isModifierHeld(event, this.settings.trigger.modifier)) {
+      return;
+    }
+
+    this.scheduleSelectionCheck({ x: event.clientX, y: event.clientY });
+  }
+
+  /**
+   * Check the selection once it is complete and the configured delay has passed.
+   * Given a pointer position, the delay restarts while the pointer keeps moving.
+   */
+  private scheduleSelectionCheck(point?: { x: number; y: number }): void {
+    this.cancelSelectionCheck();
+    // A short minimum delay ensures the selection is complete
+    const delay = Math.max(10, this.settings.trigger.delayMs);
+    if (point && this.settings.trigger.delayMs) {
+      this.restingPoint = point;
+      document.addEventListener('pointermove', this.handleRestingPointerMove, true);
+    }
+    this.startSelectionTimer(delay, () => this.checkSelection());
+  }
+
+  private startSelectionTimer(delay: number, check: () => void): void {
+    if (this.selectionTimeout) {
+      clearTimeout(this.selectionTimeout);
+    }
+    this.selectionTimeout = window.setTimeout(() => {
+      this.selectionTimeout = null;
+      this.stopHoverIntent();
+      check();
+    }, delay);
+  }
+
+  private handleRestingPointerMove = (event: PointerEvent): void => {
+    if (!this.restingPoint) {
+      return;
+    }
+    const distance = Math.hypot(event.clientX - this.restingPoint.x, event.clientY - this.restingPoint.y);
+    if (distance > this.HOVER_INTENT_DISTANCE) {
+      // Still on the move: wait for the pointer to settle again
+      this.restingPoint = { x: event.clientX, y: event.clientY };
+      this.startSelectionTimer(this.settings.trigger.delayMs, () => this.checkSelection());
+    }
+  };
+
+  private stopHoverIntent(): void {
+    if (this.restingPoint) {
+      this.restingPoint = null;
+      document.removeEventListener('pointermove', this.handleRestingPointerMove, true);
+    }
+  }
+
+  private cancelSelectionCheck(): void {
+    if (this.selectionTimeout) {
+      clearTimeout(this.selectionTimeout);
+      this.selectionTimeout = null;
+    }
+    this.stopHoverIntent();
+  }
+
+  private scheduleTouchCheck(): void {
+    this.cancelSelectionCheck();
+    this.startSelectionTimer(Math.max(this.TOUCH_SELECTION_DELAY_MS, this.settings.trigger.delayMs), () => {
+      // Dragging a handle back and forth can end where it started
+      if (!this.isCurrentSelection()) {
+        this.checkSelection();
+      }
+    });
+  }
+
+  private handleKeyUp(event: KeyboardEvent): void {
+    if (!this.isActive()) return;
+
+    if (event.key === 'Escape' || this.isEventFromUI(event)) {
+      return;
+    }
+    this.selectionRoots = this.getShadowRoots(event);
+
+    this.whenSettingsLoaded(() => {
+      // Tab, modifiers and the like leave the selection alone; rebuilding would reset the toolbar
+      if (!this.isActive() || this.isCurrentSelection()) {
+        return;
+      }
+
+      // Check selection after key release (for keyboard selection)
+      this.scheduleSelectionCheck();
+    });
+  }
+
+  private isCurrentSelection(): boolean {
+    const current = this.getSelectedRange()?.range;
+    const range = this.selectionRange;
+    if (!range || !current) {
+      return false;
+    }
+    return (
+      current.compareBoundaryPoints(Range.START_TO_START, range) === 0 &&
+      current.compareBoundaryPoints(Range.END_TO_END, range) === 0
+    );
+  }
+
+  private getShadowRoots(event: Event): ShadowRoot[] {
+    // Closed roots never show up in the composed path of a document listener
+    return event.composedPath().filter((target): target is ShadowRoot => target instanceof ShadowRoot);
+  }
+
+  /** The current selection, looking into the open shadow roots the last event came through. */
+  private getSelectedRange(): SelectionSnapshot | null {
+    const selection = window.getSelection();
+    if (!selection) {
+      return null;
+    }
+
+    const composed = this.selectionRoots.length ? this.getComposedSelection(selection) : null;
+    if (composed) {
+      return composed;
+    }
+
+    if (selection.isCollapsed || !selection.rangeCount || !selection.focusNode) {
+      return null;
+    }
+    return {
+      text: selection.toString().trim(),
+      range: selection.getRangeAt(0),
+      focus: { node: selection.focusNode, offset: selection.focusOffset },
+    };
+  }
+
+  private getComposedSelection(selection: Selection): SelectionSnapshot | null {
+    if (typeof selection.getComposedRanges !== 'function') {
+      // Older Chrome only exposes it through the non-standard ShadowRoot.getSelection()
+      for (const root of this.selectionRoots) {
+        const rootSelection = (root as ShadowRoot & { getSelection?: () => Selection | null }).getSelection?.();
+        if (rootSelection && !rootSelection.isCollapsed && rootSelection.rangeCount && rootSelection.focusNode) {
+          return {
+            text: rootSelection.toString().trim(),
+            range: rootSelection.getRangeAt(0),
+            focus: { node: rootSelection.focusNode, offset: rootSelection.focusOffset },
+          };
+        }
+      }
+      return null;
+    }
+
+    const staticRange = selection.getComposedRanges({ shadowRoots: this.selectionRoots })[0];
+    if (!staticRange || staticRange.collapsed || !(staticRange.startContainer.getRootNode() instanceof ShadowRoot)) {
+      return null;
+    }
+
+    // A live Range can't span trees; selections crossing a shadow boundary collapse and are skipped
+    const range = document.createRange();
+    range.setStart(staticRange.startContainer, staticRange.startOffset);
+    range.setEnd(staticRange.endContainer, staticRange.endOffset);
+    if (range.collapsed) {
+      return null;
+    }
+
+    const backward = selection.direction === 'backward';
+    return {
+      text: range.toString().trim(),
+      range,
+      focus: backward
+        ? { node: range.startContainer, offset: range.startOffset }
+        : { node: range.endContainer, offset: range.endOffset },
+    };
+  }
+
+  private handleSelectionChange(): void {
+    // The first selection in a child frame is what connects it
+    if (!this.connected && !window.getSelection()?.isCollapsed) {
+      this.connect();
+    }
+
+    // Hide UI when selection is cleared; child frames send 'clear' for their own selections
+    if (!this.frameAnchor && !this.getSelectedRange()) {
+      this.hideFloatingUI();
+      return;
+    }
+
+    // Touch selections never get a usable pointerup, so wait for them to settle
+    if (this.pointerType === 'touch') {
+      this.whenSettingsLoaded(() => {
+        if (this.isActive()) {
+          this.scheduleTouchCheck();
+        }
+      });
+    }
+  }
+
+  private checkSelection(): void {
+    const selected = this.getSelectedRange();
+    if (!selected?.text) {
+      this.hideFloatingUI();
+      return;
+    }
+
+    // Check if selection is in an editable element
+    if (this.isInEditableElement(selected.range.startContainer)) {
+      this.hideFloatingUI();
+      return;
+    }
+
+    if (!passesTriggerRules(selected.text, this.settings.trigger)) {
+      this.hideFloatingUI();
+      return;
+    }
+
+    if (!this.isTopFrame) {
+      this.shareSelection(selected);
+      return;
+    }
+
+    // Show floating UI
+    this.showFloatingUI(selected.text, selected);
+  }
+
+  // --- Child frames ---
+
+  private postToParent(message: FrameMessageBody): void {
+    window.parent.postMessage({ ...message, source: FRAME_MESSAGE_SOURCE }, '*');
+  }
+
+  /**
+   * Report a selection in this (child) frame to the top frame: its position up
+   * the chain of parents, its text and context through the background worker.
+   */
+  private shareSelection(selected: SelectionSnapshot): void {
+    if (!this.hasRuntime()) {
+      return;
+    }
+    const rect = this.getSelectionEndRect(selected.range, selected.focus);
+    this.selectionRange = selected.range;
+    this.selectionFocus = selected.focus;
+    const id = Array.from(crypto.getRandomValues(new Uint32Array(2)), value => value.toString(36)).join('');
+    const details = { id, text: selected.text, context: this.capturePageContext(selected.range) };
+    this.sendRequest('FRAME_SELECTION', details, () => {
+      void chrome.runtime.lastError;
+    });
+    this.postToParent({
+      type: 'selection',
+      selection: {
+        id,
+        rect: this.toRectLike(rect),
+        touch: this.pointerType === 'touch',
+        tone: this.getBackgroundTone(selected.range),
+      },
+    });
+  }
+
+  /** Show the toolbar for a child frame's selection once its position and its text have both arrived. */
+  private matchFrameSelection(): void {
+    const position = this.pendingFramePosition;
+    const details = this.pendingFrameDetails;
+    if (!position || !details || position.selection.id !== details.id) {
+      return;
+    }
+    this.pendingFramePosition = null;
+    this.pendingFrameDetails = null;
+    if (this.isActive()) {
+      this.showFloatingUI(details.text, { ...position, details });
+    }
+  }
+
+  private toRectLike(rect: RectLike): RectLike {
+    return { top: rect.top, left: rect.left, width: rect.width, height: rect.height };
+  }
+
+  private findChildFrame(source: MessageEventSource | null): HTMLIFrameElement | HTMLFrameElement | null {
+    const frames = Array.from(document.querySelectorAll<HTMLIFrameElement | HTMLFrameElement>('iframe, frame'));
+    return frames.find(frame => frame.contentWindow === source) ?? null;
+  }
+
+  /** Translate a rect from a child frame's viewport into this frame's viewport. */
+  private fromChildFrame(frame: HTMLIFrameElement | HTMLFrameElement, rect: RectLike): DOMRect {
+    const box = frame.getBoundingClientRect();
+    const style = getComputedStyle(frame);
+    const left = box.left + frame.clientLeft + parseFloat(style.paddingLeft) + rect.left;
+    const top = box.top + frame.clientTop + parseFloat(style.paddingTop) + rect.top;
+    return new DOMRect(left, top, rect.width, rect.height);
+  }
+
+  private handleFrameMessage = (event: MessageEvent): void => {
+    if (!isFrameMessage(event.data)) {
+      return;
+    }
+    // Only frames embedded in this document take part
+    const frame = this.findChildFrame(event.source);
+    if (!frame) {
+      return;
+    }
+
+    const message = event.data;
+    if (!this.isTopFrame) {
+      // Relay upwards in this frame's coordinates
+      if (message.type === 'selection') {
+        this.postToParent({
+          ...message,
+          selection: { ...message.selection, rect: this.toRectLike(this.fromChildFrame(frame, message.selection.rect)) },
+        });
+      } else if (message.type === 'moved') {
+        this.postToParent({ ...message, rect: this.toRectLike(this.fromChildFrame(frame, message.rect)) });
+      } else {
+        this.postToParent(message);
+      }
+      return;
+    }
+
+    const fromAnchor = this.frameAnchor?.frame === frame;
+    switch (message.type) {
+      case 'selection':
+        this.pendingFramePosition = { frame, selection: message.selection };
+        this.matchFrameSelection();
+        break;
+      case 'moved':
+        if (fromAnchor && this.frameAnchor) {
+          this.frameAnchor.selection.rect = message.rect;
+          this.scheduleReposition();
+        }
+        break;
+      case 'clear':
+        if (this.pendingFramePosition?.frame === frame) {
+          this.pendingFramePosition = null;
+        }
+        if (fromAnchor) {
+          this.hideFloatingUI();
+        }
+        break;
+      case 'focus-toolbar':
+        if (fromAnchor && this.floatingUI.isVisible) {
+          this.rememberFocus(frame);
+          this.focusToolbar();
+        }
+        break;
+    }
+  };
+
+  private isInEditableElement(element: Node): boolean {
+    if (element.nodeType === Node.TEXT_NODE) {
+      element = element.parentElement!;
+    }
 
     const el = element as Element;
     const htmlEl = el as HTMLElement;
@@ -468,92 +1470,1005 @@ class SelectionHandler {
     );
   }
 
-  private showFloatingUI(selectedText: string, range: Range, selection: Selection): void {
-    if (!this.settings.enabled) {
+  private showFloatingUI(selectedText: string, anchor: SelectionSnapshot | FrameAnchor): void {
+    if (!this.isActive()) {
+      return;
+    }
+
+    // Hide existing UI
+    this.hideFloatingUI();
+    if ('frame' in anchor) {
+      this.frameAnchor = anchor;
+    } else {
+      this.selectionRange = anchor.range;
+      this.selectionFocus = anchor.focus;
+    }
+    if (this.settings.theme === 'adaptive') {
+      this.applyTheme();
+    }
+    this.touchMode = 'frame' in anchor ? anchor.selection.touch : this.pointerType === 'touch';
+
+    // Create floating UI container
+    const container = document.createElement('div');
+    container.className = `${this.NAMESPACE}-container`;
+    container.classList.toggle(`${this.NAMESPACE}-container-touch`, this.touchMode);
+    const { labels, size, orientation } = this.settings.toolbarLayout;
+    container.dataset.labels = labels;
+    container.dataset.size = size;
+    container.dataset.orientation = orientation;
+    container.setAttribute('role', 'toolbar');
+    container.setAttribute('aria-label', this.t('toolbarLabel'));
+    container.setAttribute('aria-orientation', orientation);
+    container.style.visibility = 'hidden';
+
+    // Create buttons for enabled providers
+    const buttons: HTMLElement[] = [];
+
+    if (this.settings.affordanceMode === 'picker') {
+      // Single compact trigger that expands into a menu of every provider
+      container.classList.add(`${this.NAMESPACE}-container-picker`);
+      buttons.push(this.createPicker(selectedText));
+    } else {
+      // Show only enabled providers as quick actions, in the order set on the options page
+      const enabledProviders = this.settings.providers.filter(provider => provider.enabled);
+      enabledProviders.forEach(provider => {
+        buttons.push(this.createButton(provider, selectedText));
+
+        // AI providers get a secondary menu for prompt templates and the page context preview
+        if (provider.acceptsPrompts && (this.settings.promptTemplates.length || this.usesPageContext(provider))) {
+          buttons.push(this.createTemplateToggle(provider, selectedText));
+        }
+      });
+
+      this.getContextualActions(selectedText).forEach(action => {
+        buttons.push(this.createActionButton(action));
+      });
+
+      if (enabledProviders.length > 1) {
+        buttons.push(this.createAskAllButton(selectedText));
+      }
+      buttons.push(this.createSiteToggle());
+    }
+
+    // Add buttons to container; only one of them is in the tab order at a time (roving tabindex)
+    buttons.forEach((button, index) => {
+      button.tabIndex = index === 0 ? 0 : -1;
+      container.appendChild(button);
+    });
+    container.addEventListener('keydown', (e) => this.handleToolbarKeyDown(e, buttons));
+    container.addEventListener('focusin', (e) => this.handleToolbarFocusIn(e, buttons));
+
+    const lengthWarning = this.createLengthWarning(selectedText);
+    if (lengthWarning) {
+      container.appendChild(lengthWarning);
+    }
+
+    // Add to Shadow DOM for measurement
+    this.shadowRoot.appendChild(container);
+
+    // Position the container using measured size
+    const rect = this.getAnchorRect() ?? new DOMRect();
+    this.positionContainer(container, rect, this.getToolbarOffset());
+
+    // Reveal after positioning
+    container.style.visibility = '';
+    this.anchorOrigin = { top: rect.top, left: rect.left };
+
+    // Layout shifts around the selection move it without any scroll event
+    this.layoutObserver.observe(document.documentElement);
+    const anchorNode = 'frame' in anchor ? anchor.frame : anchor.range.commonAncestorContainer;
+    const anchorElement = anchorNode instanceof Element ? anchorNode : anchorNode.parentElement;
+    if (anchorElement) {
+      this.layoutObserver.observe(anchorElement);
+    }
+
+    // Store references
+    this.floatingUI.container = container;
+    this.floatingUI.buttons = buttons;
+    this.floatingUI.isVisible = true;
+
+    this.recordMetric('impression');
+    this.announce(this.t('toolbarAvailable', 'Alt+Shift+F'));
+
+    // Show with animation
+    requestAnimationFrame(() => {
+      container.classList.add('visible');
+    });
+  }
+
+  private createButton(provider: ProviderConfig, selectedText: string): HTMLElement {
+    const button = document.createElement('button');
+    button.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-button-${provider.id} ${this.NAMESPACE}-icon-button`;
+    button.type = 'button';
+    button.title = provider.name;
+    button.setAttribute('aria-label', provider.name);
+    button.setAttribute('data-provider', provider.id);
+
+    const icon = this.createIcon(provider);
+
+    if (icon) {
+      button.appendChild(icon);
+    } else if (this.settings.toolbarLayout.labels === 'icon') {
+      button.textContent = provider.name.charAt(0).toUpperCase();
+    }
+
+    if (this.settings.toolbarLayout.labels === 'icon-label') {
+      const label = document.createElement('span');
+      label.className = `${this.NAMESPACE}-button-label`;
+      label.textContent = provider.name;
+      button.appendChild(label);
+    }
+
+    // Like links: Ctrl/Cmd-click and middle-click open the result in the background
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.openProvider(provider, selectedText, e.ctrlKey || e.metaKey);
+    });
+    button.addEventListener('mousedown', (e) => {
+      if (e.button === 1) {
+        // Don't start autoscroll
+        e.preventDefault();
+      }
+    });
+    button.addEventListener('auxclick', (e) => {
+      if (e.button === 1) {
+        e.stopPropagation();
+        this.openProvider(provider, selectedText, true);
+      }
+    });
+
+    return button;
+  }
+
+  private createIcon(provider: ProviderConfig): HTMLImageElement | null {
+    const iconSrc = this.getIconSrc(provider.icon);
+    if (!iconSrc) {
+      return null;
+    }
+
+    const icon = document.createElement('img');
+    icon.className = `${this.NAMESPACE}-icon ${this.NAMESPACE}-icon-${provider.id}`;
+    icon.alt = provider.name;
+    icon.src = iconSrc;
+    return icon;
+  }
+
+  private createPicker(selectedText: string): HTMLElement {
+    const trigger = document.createElement('button');
+    trigger.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-picker`;
+    trigger.type = 'button';
+    trigger.textContent = this.t('pickerLabel');
+
+    const caret = document.createElement('span');
+    caret.className = `${this.NAMESPACE}-picker-caret`;
+    caret.setAttribute('aria-hidden', 'true');
+    caret.textContent = '\u25BE';
+    trigger.appendChild(caret);
+
+    // The picker lists every registered provider, including ones hidden from quick actions
+    this.bindMenuTrigger(trigger, this.t('toolbarLabel'), () => [
+      ...this.settings.providers.map(provider =>
+        this.createMenuItem(provider.name, this.createIcon(provider), () => {
+          this.openProvider(provider, selectedText);
+        }),
+      ),
+      ...this.getContextualActions(selectedText).map(action =>
+        this.createMenuItem(action.description, null, () => action.run(false)),
+      ),
+      ...(this.settings.providers.filter(provider => provider.enabled).length > 1
+        ? [this.createMenuItem(this.t('menuAskAll'), null, () => this.askAll(selectedText))]
+        : []),
+      this.createMenuItem(this.t('toolbarDisableSite'), null, () => this.disableOnThisSite()),
+    ]);
+
+    return trigger;
+  }
+
+  /** Flag providers whose URL would cut the selection off; null when everything fits. */
+  private createLengthWarning(selectedText: string): HTMLElement | null {
+    const tooLong = this.settings.providers.filter(
+      provider => provider.enabled && this.exceedsUrlLimit(provider, this.withPageContext(provider, selectedText)),
+    );
+    if (!tooLong.length) {
+      return null;
+    }
+
+    const names = tooLong.map(provider => provider.name).join(', ');
+    const warning = document.createElement('span');
+    warning.className = `${this.NAMESPACE}-length-warning`;
+    warning.setAttribute('role', 'img');
+    warning.setAttribute('aria-label', this.t('lengthWarningLabel', names));
+    warning.title = this.t('lengthWarningTitle', names);
+    warning.textContent = '!';
+    return warning;
+  }
+
+  private createActionButton(action: ContextualAction): HTMLElement {
+    const button = document.createElement('button');
+    button.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-action`;
+    button.type = 'button';
+    button.title = action.description;
+    button.setAttribute('aria-label', action.description);
+    button.textContent = action.label;
+
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      action.run(e.ctrlKey || e.metaKey);
+    });
+
+    return button;
+  }
+
+  /** Actions configured for the kind of text selected, e.g. "Open link" for a URL. */
+  private getContextualActions(selectedText: string): ContextualAction[] {
+    const kind = classifySelection(selectedText, navigator.language, document.documentElement.lang);
+    if (!kind) {
+      return [];
+    }
+    return this.settings.selectionActions[kind]
+      .map(action => this.createContextualAction(action, kind, selectedText.trim()))
+      .filter((action): action is ContextualAction => action !== null);
+  }
+
+  private createContextualAction(action: SelectionAction, kind: SelectionKind, text: string): ContextualAction | null {
+    // Search engines get plain queries, AI providers get prompts
+    const searchProvider =
+      this.settings.providers.find(provider => provider.enabled && !provider.acceptsPrompts) ??
+      this.settings.providers.find(provider => provider.id === 'google');
+    const assistant = this.settings.providers.find(provider => provider.enabled && provider.acceptsPrompts);
+
+    switch (action) {
+      case 'open-link': {
+        const url = /^www\./i.test(text) ? `https://${text}` : text;
+        return {
+          label: this.t('actionOpenLink'),
+          description: this.t('actionOpenLinkDescription', url),
+          run: () => this.openExternal(url),
+        };
+      }
+      case 'send-email': {
+        const address = text.replace(/^mailto:/i, '');
+        return {
+          label: this.t('actionEmail'),
+          description: this.t('actionEmailDescription', address),
+          run: () => this.openExternal(`mailto:${address}`),
+        };
+      }
+      case 'call': {
+        const number = text.replace(/^tel:/i, '').replace(/[^\d+]/g, '');
+        return {
+          label: this.t('actionCall'),
+          description: this.t('actionCallDescription', text),
+          run: () => this.openExternal(`tel:${number}`),
+        };
+      }
+      case 'open-map':
+        return {
+          label: this.t('actionMap'),
+          description: this.t('actionMapDescription'),
+          run: () => this.openExternal(`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(text)}`),
+        };
+      case 'copy':
+        return { label: this.t('actionCopy'), description: this.t('actionCopyDescription'), run: () => this.copySelection(text) };
+      case 'search-exact': {
+        if (!searchProvider) {
+          return null;
+        }
+        // The first line of an error is the message; traces below it are specific to this run
+        const firstLine = text.split('\n').map(line => line.trim()).find(Boolean) ?? text;
+        return {
+          label: this.t('actionExact'),
+          description: this.t('actionExactDescription', searchProvider.name),
+          run: background => this.openProvider(searchProvider, `"${firstLine.replace(/"/g, '')}"`, background),
+        };
+      }
+      case 'calculate':
+        return searchProvider
+          ? {
+              label: this.t('actionCalculate'),
+              description: this.t('actionCalculateDescription', searchProvider.name),
+              run: background => this.openProvider(searchProvider, text, background),
+            }
+          : null;
+      case 'explain':
+        return assistant
+          ? {
+              label: this.t(kind === 'math' ? 'actionSolve' : 'actionExplain'),
+              description: this.t(kind === 'math' ? 'actionSolveDescription' : 'actionExplainDescription', assistant.name),
+              run: background =>
+                this.openProvider(
+                  assistant,
+                  this.renderPromptTemplate(this.t(EXPLAIN_PROMPTS[kind] ?? DEFAULT_EXPLAIN_PROMPT), text),
+                  background,
+                ),
+            }
+          : null;
+      case 'translate':
+        return assistant
+          ? {
+              label: this.t('actionTranslate'),
+              description: this.t('actionTranslateDescription', [assistant.name, this.getPromptLanguage()]),
+              run: background =>
+                this.openProvider(assistant, this.renderPromptTemplate(this.t(TRANSLATE_PROMPT), text), background),
+            }
+          : null;
+    }
+  }
+
+  private openExternal(url: string): void {
+    // Not a provider URL, so it can't go through the background's OPEN_TAB checks;
+    // open it the way the page would open a link
+    const link = document.createElement('a');
+    link.href = url;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    link.click();
+    this.hideFloatingUI();
+  }
+
+  private copySelection(text: string): void {
+    this.copyToClipboard(text).then(copied => {
+      this.showToast(this.t(copied ? 'toastCopied' : 'toastCopyFailed'));
+    });
+    this.hideFloatingUI();
+  }
+
+  private createAskAllButton(selectedText: string): HTMLElement {
+    const button = document.createElement('button');
+    button.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-ask-all`;
+    button.type = 'button';
+    button.title = this.t('askAllTitle');
+    button.setAttribute('aria-label', this.t('askAllLabel'));
+    button.textContent = this.t('askAllButton');
+
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.askAll(selectedText, e.ctrlKey || e.metaKey);
+    });
+
+    return button;
+  }
+
+  private createSiteToggle(): HTMLElement {
+    const button = document.createElement('button');
+    button.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-site-toggle`;
+    button.type = 'button';
+    button.title = this.t('siteToggleTitle', location.hostname);
+    button.setAttribute('aria-label', this.t('toolbarDisableSite'));
+    button.textContent = '\u2298';
+
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.disableOnThisSite();
+    });
+
+    return button;
+  }
+
+  private disableOnThisSite(): void {
+    this.hideFloatingUI();
+
+    // The background saves a block rule and broadcasts SETTINGS_UPDATED, which detaches the host
+    if (this.hasRuntime()) {
+      this.sendRequest('DISABLE_SITE', { hostname: location.hostname }, (response) => {
+        if (!response?.ok) {
+          console.error('Failed to disable site:', chrome.runtime.lastError ?? response?.error);
+        }
+      });
+    }
+  }
+
+  private createTemplateToggle(provider: ProviderConfig, selectedText: string): HTMLElement {
+    const toggle = document.createElement('button');
+    toggle.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-template-toggle`;
+    toggle.type = 'button';
+    toggle.title = this.t('templateToggleTitle', provider.name);
+    toggle.setAttribute('aria-label', this.t('templateToggleLabel', provider.name));
+    toggle.setAttribute('data-provider', provider.id);
+    toggle.textContent = '\u25BE';
+
+    this.bindMenuTrigger(toggle, this.t('templateToggleLabel', provider.name), () => [
+      ...this.settings.promptTemplates.map(template =>
+        this.createMenuItem(template.name, null, () => {
+          this.openProvider(provider, this.renderPromptTemplate(template.template, selectedText));
+        }),
+      ),
+      ...(this.usesPageContext(provider)
+        ? [this.createMenuItem(this.t('menuPreviewContext'), null, () => this.showContextPreview(provider, selectedText, toggle))]
+        : []),
+    ]);
+
+    return toggle;
+  }
+
+  private handleToolbarKeyDown(event: KeyboardEvent, buttons: HTMLElement[]): void {
+    // Keys pressed inside an open menu or panel are handled there
+    const currentIndex = buttons.indexOf(event.target as HTMLElement);
+    if (currentIndex === -1) {
+      return;
+    }
+
+    const vertical = this.settings.toolbarLayout.orientation === 'vertical';
+    // Buttons run right to left in RTL layouts, so the arrow keys swap there
+    const [forward, backward] = this.isRtl() ? ['ArrowLeft', 'ArrowRight'] : ['ArrowRight', 'ArrowLeft'];
+    let nextIndex: number;
+    switch (event.key) {
+      case vertical ? 'ArrowDown' : forward:
+        nextIndex = (currentIndex + 1) % buttons.length;
+        break;
+      case vertical ? 'ArrowUp' : backward:
+        nextIndex = (currentIndex - 1 + buttons.length) % buttons.length;
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = buttons.length - 1;
+        break;
+      case 'Enter':
+        // Buttons already activate on Enter; this keeps Ctrl/Cmd+Enter opening in the background
+        if (event.ctrlKey || event.metaKey) {
+          event.preventDefault();
+          buttons[currentIndex].dispatchEvent(
+            new MouseEvent('click', { bubbles: true, ctrlKey: event.ctrlKey, metaKey: event.metaKey }),
+          );
+        }
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.closeMenu();
+    buttons[nextIndex].focus();
+  }
+
+  private handleToolbarFocusIn(event: FocusEvent, buttons: HTMLElement[]): void {
+    const target = event.target as HTMLElement;
+    if (buttons.includes(target)) {
+      buttons.forEach(button => {
+        button.tabIndex = button === target ? 0 : -1;
+      });
+    }
+
+    // Tabbing in from the page: remember where to go back to
+    if (!this.focusReturn && event.relatedTarget instanceof Element && !this.shadowRoot.contains(event.relatedTarget)) {
+      this.rememberFocus(event.relatedTarget);
+    }
+  }
+
+  private rememberFocus(element: Element | null): void {
+    this.focusReturn = { element, range: this.selectionRange?.cloneRange() ?? null };
+  }
+
+  /** Put focus and the selection back where they were before the toolbar was focused. */
+  private restoreFocus(): void {
+    const focusReturn = this.focusReturn;
+    this.focusReturn = null;
+    if (!focusReturn) {
+      return;
+    }
+
+    if (focusReturn.element instanceof HTMLElement && focusReturn.element.isConnected) {
+      focusReturn.element.focus({ preventScroll: true });
+    }
+    if (focusReturn.range) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(focusReturn.range);
+    }
+  }
+
+  private bindMenuTrigger(trigger: HTMLElement, label: string, buildItems: () => HTMLElement[]): void {
+    trigger.setAttribute('aria-haspopup', 'menu');
+    trigger.setAttribute('aria-expanded', 'false');
+
+    trigger.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (trigger.getAttribute('aria-expanded') === 'true') {
+        this.closeMenu();
+      } else {
+        this.openMenu(trigger, label, buildItems(), 'first');
+      }
+    });
+
+    // Up and Down move between buttons in a vertical toolbar, so the inline-end arrow opens the menu there
+    trigger.addEventListener('keydown', (e) => {
+      if (this.settings.toolbarLayout.orientation === 'vertical') {
+        if (e.key === (this.isRtl() ? 'ArrowLeft' : 'ArrowRight')) {
+          e.preventDefault();
+          this.openMenu(trigger, label, buildItems(), 'first');
+        }
+      } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        this.openMenu(trigger, label, buildItems(), e.key === 'ArrowUp' ? 'last' : 'first');
+      }
+    });
+  }
+
+  private openMenu(trigger: HTMLElement, label: string, items: HTMLElement[], focus: 'first' | 'last'): void {
+    if (!this.floatingUI.container) {
       return;
     }
 
-    // Hide existing UI
-    this.hideFloatingUI();
+    this.closeMenu();
 
-    // Create floating UI container
-    const container = document.createElement('div');
-    container.className = `${this.NAMESPACE}-container`;
-    container.setAttribute('role', 'toolbar');
-    container.setAttribute('aria-label', 'Search providers');
-    container.style.visibility = 'hidden';
+    const menu = document.createElement('div');
+    menu.className = `${this.NAMESPACE}-picker-menu`;
+    menu.setAttribute('role', 'menu');
+    menu.setAttribute('aria-label', label);
+    menu.style.visibility = 'hidden';
 
-    // Create buttons for enabled providers
-    const buttons: HTMLElement[] = [];
+    items.forEach(item => menu.appendChild(item));
+
+    menu.addEventListener('keydown', (e) => this.handleMenuKeyDown(e, items, trigger));
+
+    this.floatingUI.container.appendChild(menu);
+    this.positionContainer(menu, trigger.getBoundingClientRect());
+    menu.style.visibility = '';
+
+    trigger.setAttribute('aria-expanded', 'true');
+    this.floatingUI.menu = menu;
 
-    // Show only enabled providers as quick actions
-    if (this.settings.providers.chatgpt) {
-      buttons.push(this.createButton('ChatGPT', 'chatgpt', selectedText));
+    const initialItem = focus === 'last' ? items[items.length - 1] : items[0];
+    initialItem?.focus();
+  }
+
+  private createMenuItem(label: string, icon: HTMLImageElement | null, onSelect: () => void): HTMLElement {
+    const item = document.createElement('button');
+    item.className = `${this.NAMESPACE}-picker-item`;
+    item.type = 'button';
+    item.tabIndex = -1;
+    item.setAttribute('role', 'menuitem');
+
+    if (icon) {
+      icon.alt = '';
+      item.appendChild(icon);
     }
-    if (this.settings.providers.google) {
-      buttons.push(this.createButton('Google Search', 'google', selectedText));
+    item.appendChild(document.createTextNode(label));
+
+    item.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onSelect();
+    });
+
+    return item;
+  }
+
+  private handleMenuKeyDown(event: KeyboardEvent, items: HTMLElement[], trigger: HTMLElement): void {
+    if (!items.length) {
+      return;
     }
-    if (this.settings.providers.claude) {
-      buttons.push(this.createButton('Claude', 'claude', selectedText));
+
+    const currentIndex = items.indexOf(this.shadowRoot.activeElement as HTMLElement);
+    let nextIndex: number;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        nextIndex = (currentIndex + 1) % items.length;
+        break;
+      case 'ArrowUp':
+        nextIndex = (currentIndex - 1 + items.length) % items.length;
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = items.length - 1;
+        break;
+      case 'Escape':
+        // Close only the menu; the page-level Escape handler would dismiss the whole UI
+        event.stopPropagation();
+        this.closeMenu();
+        trigger.focus();
+        return;
+      case 'Tab':
+        this.closeMenu();
+        return;
+      default:
+        return;
     }
 
-    // Add buttons to container
-    buttons.forEach(button => {
-      container.appendChild(button);
+    event.preventDefault();
+    items[nextIndex].focus();
+  }
+
+  private closeMenu(): void {
+    if (!this.floatingUI.menu) {
+      return;
+    }
+
+    this.floatingUI.menu.remove();
+    this.floatingUI.menu = null;
+    this.floatingUI.container
+      ?.querySelectorAll('[aria-haspopup="menu"]')
+      .forEach(trigger => trigger.setAttribute('aria-expanded', 'false'));
+  }
+
+  private showContextPreview(provider: ProviderConfig, selectedText: string, trigger: HTMLElement): void {
+    // Exactly the text openProvider will send
+    const preview = document.createElement('pre');
+    preview.className = `${this.NAMESPACE}-panel-text`;
+    preview.tabIndex = 0;
+    preview.textContent = this.withPageContext(provider, selectedText);
+
+    const send = this.createPanelButton(this.t('panelSend', provider.name), () => this.openProvider(provider, selectedText));
+    const cancel = this.createPanelButton(this.t('buttonCancel'), () => {
+      this.closeMenu();
+      trigger.focus();
     });
 
-    // Add to Shadow DOM for measurement
-    this.shadowRoot.appendChild(container);
+    this.openPanel(
+      trigger,
+      this.t('contextPreviewLabel', provider.name),
+      [preview, this.createPanelActions([cancel, send])],
+      send,
+    );
+  }
 
-    // Position the container using measured size
-    const rect = this.getSelectionEndRect(selection, range);
-    this.positionContainer(container, rect);
+  private showLengthChoices(provider: ProviderConfig, text: string, query: string, background: boolean): void {
+    const trigger =
+      this.floatingUI.container?.querySelector<HTMLElement>(`[data-provider="${provider.id}"]`) ?? this.floatingUI.container;
+    if (!trigger) {
+      // No toolbar (e.g. keyboard command); shortening is the only choice that needs no UI
+      this.dispatchToProvider(provider, text, this.truncateToFit(provider, query), background);
+      return;
+    }
 
-    // Reveal after positioning
-    container.style.visibility = '';
+    const message = document.createElement('p');
+    message.className = `${this.NAMESPACE}-panel-text`;
+    message.textContent = this.t('lengthChoicesMessage', provider.name);
 
-    // Store references
-    this.floatingUI.container = container;
-    this.floatingUI.buttons = buttons;
-    this.floatingUI.isVisible = true;
+    const shorten = this.createPanelButton(this.t('lengthShorten'), () => {
+      this.dispatchToProvider(provider, text, this.truncateToFit(provider, query), background);
+    });
+    const copy = this.createPanelButton(this.t('lengthCopy'), () => {
+      this.copyToClipboard(query).then(copied => {
+        this.showToast(copied ? this.t('toastFullTextCopied', provider.name) : this.t('toastFullTextCopyFailed'));
+      });
+      this.dispatchToProvider(provider, text, '', background);
+    });
+    const handoff = this.createPanelButton(this.t('lengthHandoff', provider.name), () => {
+      this.dispatchToProvider(provider, text, '', background, query);
+    });
 
-    // Show with animation
-    requestAnimationFrame(() => {
-      container.classList.add('visible');
+    this.openPanel(
+      trigger,
+      this.t('lengthChoicesLabel', provider.name),
+      [message, this.createPanelActions([shorten, copy, handoff], 'column')],
+      shorten,
+    );
+  }
+
+  /** Show a small dialog anchored to `trigger`, in place of any open menu. */
+  private openPanel(trigger: HTMLElement, label: string, content: HTMLElement[], initialFocus: HTMLElement): void {
+    if (!this.floatingUI.container) {
+      return;
+    }
+
+    this.closeMenu();
+
+    const panel = document.createElement('div');
+    panel.className = `${this.NAMESPACE}-picker-menu ${this.NAMESPACE}-panel`;
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-label', label);
+    panel.style.visibility = 'hidden';
+    panel.append(...content);
+
+    panel.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        // Close only the panel; the page-level Escape handler would dismiss the whole UI
+        e.stopPropagation();
+        this.closeMenu();
+        trigger.focus();
+      }
     });
+
+    this.floatingUI.container.appendChild(panel);
+    this.positionContainer(panel, trigger.getBoundingClientRect());
+    panel.style.visibility = '';
+
+    if (trigger.hasAttribute('aria-haspopup')) {
+      trigger.setAttribute('aria-expanded', 'true');
+    }
+    this.floatingUI.menu = panel;
+    initialFocus.focus();
   }
 
-  private createButton(text: string, provider: keyof typeof this.PROVIDER_URLS, selectedText: string): HTMLElement {
+  private createPanelButton(label: string, onSelect: () => void): HTMLElement {
     const button = document.createElement('button');
-    button.className = `${this.NAMESPACE}-button ${this.NAMESPACE}-button-${provider} ${this.NAMESPACE}-icon-button`;
+    button.className = `${this.NAMESPACE}-picker-item`;
     button.type = 'button';
-    button.title = text;
-    button.setAttribute('aria-label', text);
-    button.setAttribute('data-provider', provider);
+    button.textContent = label;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onSelect();
+    });
+    return button;
+  }
 
-    const hasIcon = provider === 'chatgpt' || provider === 'google' || provider === 'claude';
+  private createPanelActions(buttons: HTMLElement[], direction: 'row' | 'column' = 'row'): HTMLElement {
+    const actions = document.createElement('div');
+    actions.className = `${this.NAMESPACE}-panel-actions ${this.NAMESPACE}-panel-actions-${direction}`;
+    actions.append(...buttons);
+    return actions;
+  }
 
-    if (hasIcon && this.hasRuntime()) {
-      const icon = document.createElement('img');
-      icon.className = `${this.NAMESPACE}-icon ${this.NAMESPACE}-icon-${provider}`;
-      icon.alt = text;
-      icon.src = chrome.runtime.getURL(`icons/${provider}.svg`);
-      button.appendChild(icon);
-    } else {
-      const fallback = provider === 'google' ? 'G' : 'C';
-      button.textContent = fallback;
+  private usesPageContext(provider: ProviderConfig): boolean {
+    return Boolean(provider.acceptsPrompts && provider.pageContext?.enabled);
+  }
+
+  /** Append the page context to `text` for providers that opted in; others get `text` unchanged. */
+  private withPageContext(provider: ProviderConfig, text: string): string {
+    if (!this.usesPageContext(provider)) {
+      return text;
     }
 
-    button.addEventListener('click', (e) => {
-      e.stopPropagation();
-      this.openProvider(provider, selectedText);
+    // Selections in child frames arrive with the context captured there
+    if (this.frameAnchor) {
+      const { context, text: excerptAnchor } = this.frameAnchor.details;
+      return this.buildContextPrompt(text, context, excerptAnchor, provider.pageContext!.maxChars);
+    }
+    if (!this.selectionRange) {
+      return text;
+    }
+
+    const context = this.capturePageContext(this.selectionRange);
+    const excerptAnchor = this.selectionRange.toString().trim();
+    return this.buildContextPrompt(text, context, excerptAnchor, provider.pageContext!.maxChars);
+  }
+
+  private capturePageContext(range: Range): PageContext {
+    const node = range.commonAncestorContainer;
+    const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement;
+    const block = element?.closest(CONTEXT_BLOCK_SELECTOR) ?? element;
+
+    return {
+      title: document.title,
+      url: location.href,
+      heading: block ? this.findPrecedingHeading(block) : '',
+      block: this.normalizeWhitespace((block as HTMLElement | null)?.innerText ?? block?.textContent ?? ''),
+    };
+  }
+
+  private findPrecedingHeading(element: Element): string {
+    // The last heading that starts before the element (or contains it) in document order
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).filter(
+      heading =>
+        heading.contains(element) ||
+        Boolean(heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING),
+    );
+    const heading = headings[headings.length - 1];
+    return heading ? this.normalizeWhitespace(heading.textContent ?? '') : '';
+  }
+
+  private normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private buildContextPrompt(text: string, context: PageContext, selection: string, maxChars: number): string {
+    const details = [
+      this.t('contextPage', context.title),
+      this.t('contextUrl', context.url),
+      context.heading ? this.t('contextSection', context.heading) : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    // Spend whatever budget the page details leave on the text around the selection
+    const surroundingLabel = `\n${this.t('contextSurrounding')}\n`;
+    const remaining = maxChars - details.length - surroundingLabel.length;
+    const showSurrounding = remaining > 0 && context.block && context.block !== this.normalizeWhitespace(selection);
+    const contextText = (
+      showSurrounding ? `${details}${surroundingLabel}${this.excerptAround(context.block, selection, remaining)}` : details
+    ).slice(0, maxChars);
+
+    return `${text}\n\n---\n${this.t('contextIntro')}\n${contextText}`;
+  }
+
+  /** Cut `text` down to `maxLength` characters, keeping `anchor` near the middle. */
+  private excerptAround(text: string, anchor: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+      return text;
+    }
+
+    const anchorIndex = text.indexOf(this.normalizeWhitespace(anchor).slice(0, 80));
+    const center = anchorIndex >= 0 ? anchorIndex + Math.min(anchor.length, maxLength) / 2 : 0;
+    // Leave room for the ellipses
+    const length = Math.max(maxLength - 2, 0);
+    const start = Math.max(0, Math.min(Math.round(center - length / 2), text.length - length));
+    const end = start + length;
+
+    return `${start > 0 ? '\u2026' : ''}${text.slice(start, end)}${end < text.length ? '\u2026' : ''}`;
+  }
+
+  // The provider's advanced options (locale, model, ...) are added by the background worker
+  // when it opens the tab; they add a few short parameters at most.
+  private exceedsUrlLimit(provider: ProviderConfig, query: string): boolean {
+    return buildProviderUrl(provider.urlTemplate, query).length > provider.maxUrlLength;
+  }
+
+  /** Shorten `text` so the provider URL fits, preferring to end on a sentence, then on a word. */
+  private truncateToFit(provider: ProviderConfig, text: string): string {
+    const ellipsis = '\u2026';
+
+    // Encoding makes URL length grow unevenly with the text, so search for the longest prefix
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.exceedsUrlLimit(provider, text.slice(0, middle) + ellipsis)) {
+        high = middle - 1;
+      } else {
+        low = middle;
+      }
+    }
+
+    const prefix = text.slice(0, low);
+    // Only snap back to a boundary when that keeps most of what fits
+    const minimumLength = prefix.length / 2;
+
+    let sentenceEnd = -1;
+    for (const match of prefix.matchAll(/[.!?\u3002\uff01\uff1f](?=\s|$)/g)) {
+      sentenceEnd = (match.index ?? -1) + 1;
+    }
+    if (sentenceEnd >= minimumLength) {
+      return prefix.slice(0, sentenceEnd);
+    }
+
+    const wordEnd = prefix.search(/\s\S*$/);
+    if (wordEnd >= minimumLength) {
+      return prefix.slice(0, wordEnd) + ellipsis;
+    }
+
+    return prefix + ellipsis;
+  }
+
+  private copyToClipboard(text: string): Promise<boolean> {
+    if (!navigator.clipboard?.writeText) {
+      return Promise.resolve(false);
+    }
+    return navigator.clipboard.writeText(text).then(
+      () => true,
+      (error) => {
+        console.error('Failed to copy to clipboard:', error);
+        return false;
+      },
+    );
+  }
+
+  private showToast(message: string): void {
+    this.shadowRoot.querySelector(`.${this.NAMESPACE}-toast`)?.remove();
+    // Toasts can outlive the toolbar, and handoffs arrive on pages where it was never shown
+    this.attachShadowHost();
+
+    const toast = document.createElement('div');
+    toast.className = `${this.NAMESPACE}-toast`;
+    toast.setAttribute('role', 'status');
+    toast.textContent = message;
+    this.shadowRoot.appendChild(toast);
+
+    window.setTimeout(() => {
+      toast.remove();
+      if (!this.isActive()) {
+        this.detachShadowHost();
+      }
+    }, this.TOAST_DURATION_MS);
+  }
+
+  private requestHandoff(): void {
+    if (!this.hasRuntime()) {
+      return;
+    }
+    this.sendRequest('GET_HANDOFF', {}, (response) => {
+      if (!response?.ok || !response.data) {
+        void chrome.runtime.lastError;
+        return;
+      }
+      this.deliverHandoff(response.data).then(delivered => {
+        this.sendRequest('HANDOFF_RESULT', { delivered }, () => {
+          void chrome.runtime.lastError;
+        });
+      });
     });
+  }
 
-    return button;
+  /** Put handed-off text into the page's prompt box once it exists. Resolves false if none appears. */
+  private deliverHandoff(text: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const startedAt = Date.now();
+
+      const tryInsert = () => {
+        const field = this.findPromptField();
+        if (field) {
+          this.insertIntoField(field, text);
+          resolve(true);
+          return;
+        }
+        // Single-page apps render their prompt box some time after load
+        if (Date.now() - startedAt > this.HANDOFF_TIMEOUT_MS) {
+          this.showToast(this.t('toastNoPromptField'));
+          resolve(false);
+          return;
+        }
+        window.setTimeout(tryInsert, 250);
+      };
+
+      tryInsert();
+    });
+  }
+
+  private findPromptField(): HTMLElement | null {
+    const candidates = Array.from(
+      document.querySelectorAll<HTMLElement>('[contenteditable="true"], textarea:not([disabled]):not([readonly])'),
+    );
+    return candidates.find(element => element.offsetParent !== null || element.getClientRects().length > 0) ?? null;
+  }
+
+  private insertIntoField(field: HTMLElement, text: string): void {
+    field.focus();
+    // insertText goes through the editor's own input handling (React, ProseMirror, ...)
+    if (document.execCommand('insertText', false, text)) {
+      return;
+    }
+    if (field instanceof HTMLTextAreaElement) {
+      field.value = text;
+      field.dispatchEvent(new Event('input', { bubbles: true }));
+    } else {
+      field.textContent = text;
+      field.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+    }
+  }
+
+  private renderPromptTemplate(template: string, selectedText: string): string {
+    const values: Record<string, string> = {
+      '{selection}': selectedText,
+      '{pageTitle}': document.title,
+      '{url}': location.href,
+      '{language}': this.getPromptLanguage(),
+    };
+
+    return template.replace(/\{(selection|pageTitle|url|language)\}/g, (placeholder) => values[placeholder]);
+  }
+
+  private getPromptLanguage(): string {
+    if (this.settings.promptLanguage) {
+      return this.settings.promptLanguage;
+    }
+
+    // Fall back to the browser language, spelled out so the model reads it naturally
+    try {
+      const language = navigator.language;
+      return new Intl.DisplayNames([language], { type: 'language' }).of(language) || language;
+    } catch (_error) {
+      return navigator.language;
+    }
+  }
+
+  private getIconSrc(icon: string): string | null {
+    if (!icon) {
+      return null;
+    }
+
+    // Bundled icons are resolved against the extension origin
+    if (icon.startsWith('icons/')) {
+      return this.hasRuntime() ? chrome.runtime.getURL(icon) : null;
+    }
+
+    if (/^(https:|data:image\/)/.test(icon)) {
+      return icon;
+    }
+
+    return null;
   }
 
 
-  private positionContainer(container: HTMLElement, selectionRect: DOMRect): void {
+  private getToolbarOffset(): number {
+    // Native selection handles hang below the selection and the touch menu floats above it
+    return this.touchMode ? this.TOUCH_HANDLE_CLEARANCE : this.TOOLBAR_OFFSET;
+  }
+
+  private positionContainer(container: HTMLElement, selectionRect: DOMRect, offset = this.TOOLBAR_OFFSET): void {
     const containerStyle = container.style;
     containerStyle.position = 'fixed';
     containerStyle.zIndex = '9999';
@@ -561,7 +2476,6 @@ class SelectionHandler {
     const measuredRect = container.getBoundingClientRect();
     const containerHeight = measuredRect.height || 30;
     const containerWidth = measuredRect.width || 60;
-    const offset = 6;
     const viewportHeight = window.innerHeight;
     const viewportWidth = window.innerWidth;
     const candidates = this.getCandidatePositions(
@@ -579,28 +2493,34 @@ class SelectionHandler {
     containerStyle.left = `${bestPosition.left}px`;
   }
 
-  private getSelectionEndRect(selection: Selection, range: Range): DOMRect {
-    const focusNode = selection.focusNode;
-    const focusOffset = selection.focusOffset;
+  /** Where the toolbar is anchored: the focus end of the selection, or a child frame's report. */
+  private getAnchorRect(): DOMRect | null {
+    if (this.frameAnchor) {
+      return this.fromChildFrame(this.frameAnchor.frame, this.frameAnchor.selection.rect);
+    }
+    if (this.selectionRange && this.selectionFocus) {
+      return this.getSelectionEndRect(this.selectionRange, this.selectionFocus);
+    }
+    return null;
+  }
 
-    if (focusNode) {
-      try {
-        const focusRange = range.cloneRange();
-        focusRange.setStart(focusNode, focusOffset);
-        focusRange.collapse(true);
+  private getSelectionEndRect(range: Range, focus: SelectionSnapshot['focus']): DOMRect {
+    try {
+      const focusRange = range.cloneRange();
+      focusRange.setStart(focus.node, focus.offset);
+      focusRange.collapse(true);
 
-        const focusRect = focusRange.getBoundingClientRect();
-        if (focusRect && (focusRect.width || focusRect.height)) {
-          return focusRect;
-        }
+      const focusRect = focusRange.getBoundingClientRect();
+      if (focusRect && (focusRect.width || focusRect.height)) {
+        return focusRect;
+      }
 
-        const focusClientRects = focusRange.getClientRects();
-        if (focusClientRects.length) {
-          return focusClientRects[focusClientRects.length - 1];
-        }
-      } catch (_error) {
-        // Ignore errors and fall back to range rects
+      const focusClientRects = focusRange.getClientRects();
+      if (focusClientRects.length) {
+        return focusClientRects[focusClientRects.length - 1];
       }
+    } catch (_error) {
+      // Ignore errors and fall back to range rects
     }
 
     const clientRects = range.getClientRects();
@@ -611,20 +2531,55 @@ class SelectionHandler {
     return range.getBoundingClientRect();
   }
 
-  private openProvider(provider: keyof typeof this.PROVIDER_URLS, text: string): void {
-    const url = this.PROVIDER_URLS[provider](text);
+  private openProvider(provider: ProviderConfig, text: string, background = false): void {
+    const query = this.withPageContext(provider, text);
+    if (this.exceedsUrlLimit(provider, query)) {
+      // Let the user decide how to send it rather than having the provider cut it off
+      this.showLengthChoices(provider, text, query, background);
+      return;
+    }
+    this.dispatchToProvider(provider, text, query, background);
+  }
+
+  /**
+   * Open the provider with `query` in its URL. `text` is what history records;
+   * `handoffText` is delivered to the opened tab by the background worker.
+   */
+  private dispatchToProvider(
+    provider: ProviderConfig,
+    text: string,
+    query: string,
+    background: boolean,
+    handoffText?: string,
+  ): void {
+    const url = buildProviderUrl(provider.urlTemplate, query);
+    this.recordMetric('action', provider.id);
 
     // Send message to background script to open tab
     if (this.hasRuntime()) {
       try {
-        chrome.runtime.sendMessage({
-          type: 'OPEN_TAB',
+        this.sendRequest('OPEN_TAB', {
           url: url,
-        }, (_response) => {
+          providerId: provider.id,
+          background,
+          handoffText,
+          history: {
+            query: text,
+            providerId: provider.id,
+            providerName: provider.name,
+            sourceUrl: location.href,
+            pageTitle: document.title,
+          },
+        }, (response) => {
           if (chrome.runtime.lastError) {
             console.error('Failed to open tab:', chrome.runtime.lastError);
             // Fallback: open directly
             window.open(url, '_blank');
+          } else if (!response?.ok) {
+            // The background rejected the URL; don't bypass its checks
+            console.error('Failed to open tab:', response?.error);
+          } else {
+            this.announce(this.t(background ? 'announceOpenedBackground' : 'announceOpened', provider.name));
           }
         });
       } catch (error) {
@@ -636,8 +2591,68 @@ class SelectionHandler {
       window.open(url, '_blank');
     }
 
-    // Hide UI after action
-    this.hideFloatingUI();
+    // Hide UI after action; background opens keep it so more providers can be tried
+    if (!background) {
+      this.hideFloatingUI();
+    }
+  }
+
+  private askAll(text: string, background = false): void {
+    const query = text.trim();
+    const providerQueries: Record<string, string> = {};
+    this.settings.providers
+      .filter(provider => provider.enabled)
+      .forEach(provider => {
+        this.recordMetric('action', provider.id);
+        const providerQuery = this.withPageContext(provider, query);
+        if (this.exceedsUrlLimit(provider, providerQuery)) {
+          providerQueries[provider.id] = this.truncateToFit(provider, providerQuery);
+        } else if (providerQuery !== query) {
+          providerQueries[provider.id] = providerQuery;
+        }
+      });
+
+    // The background opens every provider next to this tab and groups them
+    if (this.hasRuntime()) {
+      try {
+        const request = { query, providerQueries, background, sourceUrl: location.href, pageTitle: document.title };
+        this.sendRequest('ASK_ALL', request, (response) => {
+          if (!response?.ok) {
+            console.error('Failed to ask all providers:', chrome.runtime.lastError ?? response?.error);
+          } else {
+            this.announce(this.t('announceAskAll'));
+          }
+        });
+      } catch (error) {
+        console.error('Failed to send message:', error);
+      }
+    }
+
+    if (!background) {
+      this.hideFloatingUI();
+    }
+  }
+
+  private sendRequest<T extends RequestType>(
+    type: T,
+    payload: RequestMap[T],
+    callback: (response: MessageResponse<ResponseMap[T]> | undefined) => void
+  ): void {
+    chrome.runtime.sendMessage({ type, version: PROTOCOL_VERSION, ...payload }, callback);
+  }
+
+  private recordMetric(metric: 'impression' | 'action', providerId?: string): void {
+    // Counters are kept locally by the background worker; never let them break the page
+    if (!this.hasRuntime()) {
+      return;
+    }
+    try {
+      this.sendRequest('RECORD_METRIC', providerId ? { metric, providerId } : { metric }, () => {
+        void chrome.runtime.lastError;
+      });
+    } catch (_error) {
+      // Extension context invalidated
+    }
   }
 
   private hideFloatingUI(): void {
@@ -645,33 +2660,145 @@ class SelectionHandler {
       this.floatingUI.container.remove();
       this.floatingUI.container = null;
       this.floatingUI.buttons = [];
+      this.floatingUI.menu = null;
       this.floatingUI.isVisible = false;
+      this.selectionRange = null;
+      this.selectionFocus = null;
+      this.frameAnchor = null;
+    }
+    if (!this.isTopFrame && this.selectionRange) {
+      this.selectionRange = null;
+      this.selectionFocus = null;
+      this.postToParent({ type: 'clear' });
+    }
+    this.focusReturn = null;
+    this.anchorOrigin = null;
+    this.layoutObserver.disconnect();
+    if (this.repositionFrame !== null) {
+      cancelAnimationFrame(this.repositionFrame);
+      this.repositionFrame = null;
     }
 
     // Clear any pending timeout
-    if (this.selectionTimeout) {
-      clearTimeout(this.selectionTimeout);
-      this.selectionTimeout = null;
-    }
+    this.cancelSelectionCheck();
   }
 
   private handleDocumentClick(event: MouseEvent): void {
     // Hide UI if clicking outside of it
-    if (this.floatingUI.container && !this.floatingUI.container.contains(event.target as Node)) {
+    if (this.floatingUI.container && !this.isEventFromUI(event)) {
       this.hideFloatingUI();
     }
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
-    // Hide UI on Escape
-    if (event.key === 'Escape' && this.floatingUI.isVisible) {
+    // Hide UI on Escape; from inside the toolbar, go back to where the user was
+    if (event.key === 'Escape' && (this.floatingUI.isVisible || this.selectionRange)) {
+      const focusReturn = this.isEventFromUI(event) ? this.focusReturn : null;
       this.hideFloatingUI();
+      this.focusReturn = focusReturn;
+      this.restoreFocus();
+      return;
+    }
+
+    if (this.isToolbarFocusShortcut(event) && !this.isTopFrame && this.selectionRange) {
+      // The toolbar for this frame's selection lives in the top frame
+      event.preventDefault();
+      this.postToParent({ type: 'focus-toolbar' });
+      return;
+    }
+
+    if (this.isToolbarFocusShortcut(event) && this.floatingUI.isVisible) {
+      event.preventDefault();
+      if (!this.isEventFromUI(event)) {
+        this.rememberFocus(document.activeElement);
+      }
+      this.focusToolbar();
+    }
+  }
+
+  private focusToolbar(): void {
+    const buttons = this.floatingUI.buttons;
+    (buttons.find(button => button.tabIndex === 0) ?? buttons[0])?.focus();
+  }
+
+  private hasInnermostFocus(): boolean {
+    const active = document.activeElement;
+    return document.hasFocus() && !(active instanceof HTMLIFrameElement || active instanceof HTMLFrameElement);
+  }
+
+  private isToolbarFocusShortcut(event: KeyboardEvent): boolean {
+    // Match on code: with Alt held, macOS reports a different character in event.key
+    return event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey && event.code === this.TOOLBAR_FOCUS_KEY;
+  }
+
+  private getSelectedText(): string {
+    const active = document.activeElement;
+    if (active instanceof HTMLTextAreaElement || active instanceof HTMLInputElement) {
+      try {
+        const { selectionStart, selectionEnd, value } = active;
+        if (selectionStart !== null && selectionEnd !== null && selectionStart !== selectionEnd) {
+          return value.slice(selectionStart, selectionEnd).trim();
+        }
+      } catch (_error) {
+        // Some input types (e.g. email, number) do not expose a selection range
+      }
     }
+
+    return this.getSelectedRange()?.text ?? '';
   }
 
+  // Scrolls anywhere (including nested containers) and resizes only move the
+  // toolbar; it hides once the selection leaves the viewport or moves past the
+  // configured scroll threshold.
   private handleScroll(): void {
-    // Hide UI on scroll
-    this.hideFloatingUI();
+    this.scheduleReposition();
+  }
+
+  private scheduleReposition(): void {
+    // Child frames track their shared selection without showing anything
+    const tracking = this.floatingUI.isVisible || (!this.isTopFrame && this.selectionRange);
+    if (!tracking || this.repositionFrame !== null) {
+      return;
+    }
+    this.repositionFrame = requestAnimationFrame(() => {
+      this.repositionFrame = null;
+      this.repositionToSelection();
+    });
+  }
+
+  private repositionToSelection(): void {
+    const { container } = this.floatingUI;
+    const rect = this.getAnchorRect();
+    if (!rect) {
+      return;
+    }
+
+    // Child frames hand the new position up; the top frame applies the threshold
+    const bounds = this.selectionRange?.getBoundingClientRect() ?? rect;
+    const detached = this.frameAnchor ? !this.frameAnchor.frame.isConnected : !bounds.width && !bounds.height;
+    const offscreen =
+      bounds.bottom < 0 || bounds.top > window.innerHeight || bounds.right < 0 || bounds.left > window.innerWidth;
+    if (detached || offscreen) {
+      this.hideFloatingUI();
+      return;
+    }
+    if (!this.isTopFrame) {
+      this.postToParent({ type: 'moved', rect: this.toRectLike(rect) });
+      return;
+    }
+    if (!container || !this.anchorOrigin) {
+      return;
+    }
+
+    const threshold = this.settings.scrollThreshold;
+    const moved = Math.max(Math.abs(rect.top - this.anchorOrigin.top), Math.abs(rect.left - this.anchorOrigin.left));
+    if (threshold > 0 && moved > threshold) {
+      this.hideFloatingUI();
+      return;
+    }
+
+    // Open menus and panels are inside the container and move along with it
+    this.positionContainer(container, rect, this.getToolbarOffset());
   }
 
   private cleanup(): void {
@@ -683,12 +2810,17 @@ class SelectionHandler {
     }
 
     // Remove event listeners
-    document.removeEventListener('mouseup', this.handleMouseUp.bind(this));
+    document.removeEventListener('pointerdown', this.handlePointerDown.bind(this), true);
+    document.removeEventListener('pointerup', this.handlePointerUp.bind(this));
     document.removeEventListener('keyup', this.handleKeyUp.bind(this));
     document.removeEventListener('click', this.handleDocumentClick.bind(this));
     document.removeEventListener('keydown', this.handleKeyDown.bind(this));
     document.removeEventListener('scroll', this.handleScroll.bind(this), true);
+    window.removeEventListener('resize', this.handleScroll.bind(this));
+    this.layoutObserver.disconnect();
     document.removeEventListener('selectionchange', this.handleSelectionChange.bind(this));
+    this.colorSchemeQuery.removeEventListener('change', this.handleColorSchemeChange);
+    window.removeEventListener('message', this.handleFrameMessage);
     window.removeEventListener('beforeunload', this.cleanup.bind(this));
   }
 
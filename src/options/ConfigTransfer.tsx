@@ -0,0 +1,150 @@
+// Export the whole configuration to a JSON file and import one with a preview
+import React, { useRef, useState } from 'react';
+import { addHistoryEntries, getAllMetrics, getHistory, putMetrics, toDayKey } from '../utils/db';
+import type { Settings } from '../utils/settings';
+import { ConfigImport, ConfigSnapshot, createConfigFile, prepareConfigImport } from '../utils/config';
+import { t } from '../utils/i18n';
+
+interface ConfigTransferProps {
+  settings: Settings;
+  onImport: (settings: Settings) => Promise<void>;
+}
+
+export const ConfigTransfer: React.FC<ConfigTransferProps> = ({ settings, onImport }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<ConfigImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const getSnapshot = async (): Promise<ConfigSnapshot> => ({
+    settings,
+    history: await getHistory(),
+    metrics: await getAllMetrics(),
+  });
+
+  const handleExport = async () => {
+    try {
+      const file = createConfigFile(await getSnapshot());
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+      link.download = `select-to-search-config-${toDayKey(new Date())}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (exportError) {
+      console.error('Failed to export configuration:', exportError);
+      setError(t('configExportFailed'));
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after cancelling
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setStatus(null);
+    try {
+      setPending(prepareConfigImport(await file.text(), await getSnapshot()));
+      setError(null);
+    } catch (importError) {
+      setPending(null);
+      setError(importError instanceof Error ? importError.message : t('configReadFailed'));
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending) {
+      return;
+    }
+    try {
+      // Write history first so the settings broadcast prunes it to the new retention
+      if (pending.history.length) {
+        await addHistoryEntries(pending.history);
+      }
+      if (pending.metrics.length) {
+        await putMetrics(pending.metrics);
+      }
+      await onImport(pending.settings);
+      setStatus(t('configImported', pending.changes.length));
+      setPending(null);
+    } catch (importError) {
+      console.error('Failed to import configuration:', importError);
+      setError(t('configApplyFailed'));
+    }
+  };
+
+  const sections = pending ? Array.from(new Set(pending.changes.map((change) => change.section))) : [];
+
+  return (
+    <div className="card">
+      <div className="setting-row">
+        <div className="setting-copy">
+          <div className="setting-title">{t('configTitle')}</div>
+          <p className="setting-description">{t('configDescription')}</p>
+          {error && <div className="field-error" role="alert">{error}</div>}
+          {status && <div className="field-hint" role="status">{status}</div>}
+        </div>
+        <div className="row-actions">
+          <button type="button" className="text-button" onClick={handleExport}>
+            {t('configExport')}
+          </button>
+          <button type="button" className="text-button" onClick={() => fileInput.current?.click()}>
+            {t('configImport')}
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={handleFileChange}
+            aria-label={t('configChooseFile')}
+          />
+        </div>
+      </div>
+
+      {pending && (
+        <div className="setting-row no-border">
+          <div className="setting-copy import-preview">
+            <div className="setting-title">{t('configReview')}</div>
+            {pending.changes.length ? (
+              sections.map((section) => (
+                <div key={section}>
+                  <div className="field-label">{section}</div>
+                  <ul className="import-changes">
+                    {pending.changes
+                      .filter((change) => change.section === section)
+                      .map((change) => (
+                        <li key={change.description}>{change.description}</li>
+                      ))}
+                  </ul>
+                </div>
+              ))
+            ) : (
+              <p className="setting-description">{t('configNoChanges')}</p>
+            )}
+            {pending.warnings.map((warning) => (
+              <p className="field-error" key={warning}>
+                {warning}
+              </p>
+            ))}
+            <div className="form-actions">
+              <button type="button" className="text-button" onClick={() => setPending(null)}>
+                {t('buttonCancel')}
+              </button>
+              <button
+                type="button"
+                className="primary-button"
+                onClick={handleApply}
+                disabled={!pending.changes.length}
+              >
+                {t('configApply')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
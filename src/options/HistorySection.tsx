@@ -0,0 +1,219 @@
+// Local search history with filtering, re-run and retention controls
+import React, { useEffect, useMemo, useState } from 'react';
+import { clearHistory, deleteHistoryEntry, getHistory, HistoryEntry } from '../utils/db';
+import type { HistorySettings, ProviderConfig } from '../utils/settings';
+import { buildProviderUrl } from '../utils/providers';
+import { sendRequest } from '../utils/protocol';
+import { getUiLocale, MessageKey, t } from '../utils/i18n';
+
+interface HistorySectionProps {
+  providers: ProviderConfig[];
+  retention: HistorySettings;
+  onRetentionChange: (retention: HistorySettings) => void;
+}
+
+// Labels receive the number of days
+const MAX_AGE_OPTIONS: { value: number; label: MessageKey }[] = [
+  { value: 7, label: 'historyAgeWeek' },
+  { value: 30, label: 'historyAgeDays' },
+  { value: 90, label: 'historyAgeDays' },
+  { value: 365, label: 'historyAgeYear' },
+  { value: 0, label: 'historyAgeForever' },
+];
+const MAX_ENTRIES_OPTIONS = [100, 500, 1000, 5000];
+const MAX_VISIBLE_ENTRIES = 200;
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getUiLocale(), {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Everything a user might remember about a search, including the weekday it happened
+const getSearchableText = (entry: HistoryEntry) =>
+  [
+    entry.query,
+    entry.providerName,
+    entry.pageTitle,
+    entry.sourceUrl,
+    new Date(entry.timestamp).toLocaleDateString(getUiLocale(), { weekday: 'long', month: 'long', day: 'numeric' }),
+  ]
+    .join(' ')
+    .toLowerCase();
+
+export const HistorySection: React.FC<HistorySectionProps> = ({ providers, retention, onRetentionChange }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      setEntries(await getHistory());
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    }
+  };
+
+  const filteredEntries = useMemo(() => {
+    const terms = filter.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.length) {
+      return entries;
+    }
+    return entries.filter((entry) => {
+      const text = getSearchableText(entry);
+      return terms.every((term) => text.includes(term));
+    });
+  }, [entries, filter]);
+
+  const handleRerun = (entry: HistoryEntry, provider: ProviderConfig) => {
+    sendRequest('OPEN_TAB', { url: buildProviderUrl(provider.urlTemplate, entry.query), providerId: provider.id }).catch((error) => {
+      console.error('Failed to re-run search:', error);
+    });
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (entry.id === undefined) {
+      return;
+    }
+    try {
+      await deleteHistoryEntry(entry.id);
+      setEntries((current) => current.filter((item) => item.id !== entry.id));
+    } catch (error) {
+      console.error('Failed to delete history entry:', error);
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm(t('historyClearConfirm'))) {
+      return;
+    }
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (error) {
+      console.error('Failed to clear history:', error);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="setting-row">
+        <div className="setting-copy">
+          <div className="setting-title">{t('historySaveTitle')}</div>
+          <p className="setting-description">{t('historySaveDescription')}</p>
+        </div>
+        <label className="switch">
+          <input
+            type="checkbox"
+            checked={retention.enabled}
+            onChange={(e) => onRetentionChange({ ...retention, enabled: e.target.checked })}
+            aria-label={t('historySaveLabel')}
+          />
+          <span className="switch-track">
+            <span className="switch-thumb" />
+          </span>
+        </label>
+      </div>
+
+      {retention.enabled && (
+        <div className="setting-row">
+          <div className="setting-copy">
+            <div className="setting-title">{t('historyKeepTitle')}</div>
+          </div>
+          <div className="row-actions">
+            <select
+              className="text-input compact-input"
+              value={retention.maxAgeDays}
+              onChange={(e) => onRetentionChange({ ...retention, maxAgeDays: Number(e.target.value) })}
+              aria-label={t('historyMaxAgeLabel')}
+            >
+              {MAX_AGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{t(option.label, option.value)}</option>
+              ))}
+            </select>
+            <select
+              className="text-input compact-input"
+              value={retention.maxEntries}
+              onChange={(e) => onRetentionChange({ ...retention, maxEntries: Number(e.target.value) })}
+              aria-label={t('historyMaxEntriesLabel')}
+            >
+              {MAX_ENTRIES_OPTIONS.map((count) => (
+                <option key={count} value={count}>{t('historyMaxEntries', count.toLocaleString(getUiLocale()))}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div className="setting-row">
+        <input
+          type="search"
+          className="text-input"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={t('historyFilterPlaceholder')}
+          aria-label={t('historyFilterLabel')}
+        />
+        <button
+          type="button"
+          className="text-button danger"
+          onClick={handleClearAll}
+          disabled={!entries.length}
+        >
+          {t('historyClearAll')}
+        </button>
+      </div>
+
+      {filteredEntries.slice(0, MAX_VISIBLE_ENTRIES).map((entry) => {
+        const provider = providers.find((item) => item.id === entry.providerId);
+        return (
+          <div className="setting-row" key={entry.id}>
+            <div className="setting-copy">
+              <div className="history-query" title={entry.query}>{entry.query}</div>
+              <p className="setting-description history-meta">
+                {entry.providerName} · {formatTimestamp(entry.timestamp)}
+                {entry.pageTitle && <> · <span title={entry.sourceUrl}>{entry.pageTitle}</span></>}
+              </p>
+            </div>
+            <div className="row-actions">
+              <button
+                type="button"
+                className="text-button"
+                onClick={() => provider && handleRerun(entry, provider)}
+                disabled={!provider}
+                title={provider ? undefined : t('historyProviderMissing')}
+              >
+                {t('historyRerun')}
+              </button>
+              <button type="button" className="text-button danger" onClick={() => handleDelete(entry)}>
+                {t('buttonDelete')}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {!filteredEntries.length && (
+        <div className="setting-row">
+          <p className="setting-description">
+            {t(entries.length ? 'historyNoMatches' : 'historyEmpty')}
+          </p>
+        </div>
+      )}
+
+      {filteredEntries.length > MAX_VISIBLE_ENTRIES && (
+        <div className="setting-row">
+          <p className="setting-description">
+            {t('historyTruncated', [MAX_VISIBLE_ENTRIES, filteredEntries.length])}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
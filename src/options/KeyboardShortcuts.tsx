@@ -0,0 +1,91 @@
+// Lists the extension's keyboard commands and their current bindings
+import React, { useEffect, useState } from 'react';
+import type { ProviderConfig } from '../utils/settings';
+import { t } from '../utils/i18n';
+
+interface KeyboardShortcutsProps {
+  providers: ProviderConfig[];
+}
+
+const SHORTCUTS_PAGE_URL = 'chrome://extensions/shortcuts';
+const PROVIDER_SLOT_COMMAND_PREFIX = 'search-provider-';
+
+export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({ providers }) => {
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([]);
+
+  useEffect(() => {
+    loadCommands();
+
+    // Bindings are edited on Chrome's own page, so refresh when the user comes back
+    window.addEventListener('focus', loadCommands);
+    return () => window.removeEventListener('focus', loadCommands);
+  }, []);
+
+  const loadCommands = async () => {
+    if (!chrome.commands?.getAll) {
+      return;
+    }
+    try {
+      setCommands(await chrome.commands.getAll());
+    } catch (error) {
+      console.error('Failed to load keyboard shortcuts:', error);
+    }
+  };
+
+  const enabledProviders = providers.filter((provider) => provider.enabled);
+
+  const describeCommand = (command: chrome.commands.Command): string => {
+    if (command.name === 'search-default') {
+      const provider = enabledProviders[0];
+      return provider ? t('shortcutDefault', provider.name) : t('shortcutDefaultNone');
+    }
+
+    if (command.name?.startsWith(PROVIDER_SLOT_COMMAND_PREFIX)) {
+      const slot = Number(command.name.slice(PROVIDER_SLOT_COMMAND_PREFIX.length));
+      const provider = enabledProviders[slot - 1];
+      return provider ? t('shortcutSlot', [provider.name, slot]) : t('shortcutSlotEmpty', slot);
+    }
+
+    return command.description || command.name || '';
+  };
+
+  const openShortcutsPage = () => {
+    if (chrome.tabs?.create) {
+      chrome.tabs.create({ url: SHORTCUTS_PAGE_URL });
+    }
+  };
+
+  return (
+    <div className="card">
+      {commands.map((command) => (
+        <div className="setting-row" key={command.name}>
+          <div className="setting-copy">
+            <div className="setting-title">{describeCommand(command)}</div>
+          </div>
+          {command.shortcut ? (
+            <kbd className="shortcut">{command.shortcut}</kbd>
+          ) : (
+            <span className="shortcut-unset">{t('shortcutNotSet')}</span>
+          )}
+        </div>
+      ))}
+
+      <div className="setting-row">
+        <div className="setting-copy">
+          <div className="setting-title">{t('shortcutFocusTitle')}</div>
+          <p className="setting-description">{t('shortcutFocusDescription')}</p>
+        </div>
+        <kbd className="shortcut">Alt+Shift+F</kbd>
+      </div>
+
+      <div className="setting-row">
+        <div className="setting-copy">
+          <p className="setting-description">{t('shortcutsManaged')}</p>
+        </div>
+        <button type="button" className="text-button" onClick={openShortcutsPage}>
+          {t('shortcutsChange')}
+        </button>
+      </div>
+    </div>
+  );
+};
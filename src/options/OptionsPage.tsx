@@ -1,6 +1,28 @@
 // React component for options page
 import React, { useEffect, useState } from 'react';
-import { getSettings, saveSettings as saveSettingsToDB, Settings, defaultSettings } from '../utils/db';
+import { loadSettings, migrateLegacySettings, saveSettings as saveSettingsToDB } from '../utils/db';
+import {
+  defaultSettings,
+  PromptTemplate,
+  ProviderConfig,
+  Settings,
+  Theme,
+  ToolbarLayout,
+} from '../utils/settings';
+import { applyProviderOptions, buildProviderUrl, resolveIconSrc } from '../utils/providers';
+import { createSlugId } from '../utils/ids';
+import { isExtensionPage } from '../utils/messageRouter';
+import { parseSettingsUpdate, sendRequest } from '../utils/protocol';
+import { ProviderDraft, ProviderForm, ProviderTestTarget } from './ProviderForm';
+import { PromptTemplateDraft, PromptTemplateForm } from './PromptTemplateForm';
+import { KeyboardShortcuts } from './KeyboardShortcuts';
+import { HistorySection } from './HistorySection';
+import { UsageDashboard } from './UsageDashboard';
+import { SiteRulesSection } from './SiteRulesSection';
+import { SelectionActionsSection } from './SelectionActionsSection';
+import { TriggerSection } from './TriggerSection';
+import { ConfigTransfer } from './ConfigTransfer';
+import { getTextDirection, getUiLocale, MessageKey, setUiLanguage, t, UI_LANGUAGES, UiLanguage } from '../utils/i18n';
 
 // Mock chrome.runtime.getManifest for local development
 if (typeof chrome === 'undefined' || !chrome.runtime) {
@@ -12,66 +34,141 @@ if (typeof chrome === 'undefined' || !chrome.runtime) {
   };
 }
 
-type Theme = 'light' | 'dark';
 const themeStorageKey = 'sts-options-theme';
-const providerOrder: Array<keyof Settings['providers']> = ['chatgpt', 'google', 'claude'];
-const providerIcons: Record<keyof Settings['providers'], string> = {
-  chatgpt: '/icons/chatgpt.svg',
-  google: '/icons/google.svg',
-  claude: '/icons/claude.svg',
+const testQuery = 'select to search';
+const NEW_PROVIDER = 'new';
+const NEW_TEMPLATE = 'new';
+const colorSchemeQuery = '(prefers-color-scheme: dark)';
+
+const THEME_OPTIONS: { value: Theme; label: MessageKey }[] = [
+  { value: 'light', label: 'themeLight' },
+  { value: 'dark', label: 'themeDark' },
+  { value: 'system', label: 'themeSystem' },
+  { value: 'adaptive', label: 'themeAdaptive' },
+];
+// Labels receive the distance in pixels
+const SCROLL_THRESHOLD_OPTIONS: { value: number; label: MessageKey }[] = [
+  { value: 0, label: 'scrollKeepFollowing' },
+  { value: 50, label: 'scrollHideAfter' },
+  { value: 200, label: 'scrollHideAfter' },
+  { value: 600, label: 'scrollHideAfter' },
+];
+const LAYOUT_OPTIONS: {
+  [K in keyof ToolbarLayout]: { title: MessageKey; options: { value: ToolbarLayout[K]; label: MessageKey }[] };
+} = {
+  labels: {
+    title: 'layoutLabelsTitle',
+    options: [
+      { value: 'icon', label: 'layoutLabelsIcon' },
+      { value: 'icon-label', label: 'layoutLabelsIconLabel' },
+    ],
+  },
+  size: {
+    title: 'layoutSizeTitle',
+    options: [
+      { value: 'compact', label: 'layoutSizeCompact' },
+      { value: 'comfortable', label: 'layoutSizeComfortable' },
+    ],
+  },
+  orientation: {
+    title: 'layoutOrientationTitle',
+    options: [
+      { value: 'horizontal', label: 'layoutOrientationHorizontal' },
+      { value: 'vertical', label: 'layoutOrientationVertical' },
+    ],
+  },
+};
+const LAYOUT_FIELDS: (keyof ToolbarLayout)[] = ['labels', 'size', 'orientation'];
+const isTheme = (value: unknown): value is Theme => THEME_OPTIONS.some((option) => option.value === value);
+
+// Language and direction for the whole page; the stylesheet uses logical properties, so RTL needs only dir
+const applyDocumentLanguage = () => {
+  document.documentElement.lang = getUiLocale();
+  document.documentElement.dir = getTextDirection();
+  document.title = t('optionsPageTitle');
 };
 
 export const OptionsPage: React.FC = () => {
   const [settings, setSettings] = useState<Settings>(defaultSettings);
   const [theme, setTheme] = useState<Theme>('light');
   const [isLoading, setIsLoading] = useState(true);
+  const [editingProviderId, setEditingProviderId] = useState<string | null>(null);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  // Provider being dragged to a new position, and the row it would drop onto
+  const [draggedProviderId, setDraggedProviderId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Strings are looked up while rendering, so this changes once a newly chosen language has loaded
+  const [, setShownLanguage] = useState<UiLanguage | ''>('');
 
   useEffect(() => {
     initialize();
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    setUiLanguage(settings.uiLanguage)
+      .catch((error) => console.error('Failed to load the interface language:', error))
+      .then(() => {
+        if (!cancelled) {
+          applyDocumentLanguage();
+          setShownLanguage(settings.uiLanguage);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.uiLanguage]);
+
+  useEffect(() => {
+    // Pick up changes made elsewhere, e.g. "Disable on this site" from the toolbar
+    if (!chrome.runtime?.onMessage) {
+      return;
+    }
+    const handleMessage = (message: unknown, sender: chrome.runtime.MessageSender) => {
+      // Content scripts share the extension id, so only this extension's own pages are trusted
+      if (sender.id !== chrome.runtime.id || !isExtensionPage(sender)) {
+        return;
+      }
+      const updated = parseSettingsUpdate(message);
+      if (updated) {
+        setSettings(updated);
+      }
+    };
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
   useEffect(() => {
     applyTheme(theme);
+    // This page has no host page to match, so 'adaptive' follows the system here too
+    const followsSystem = theme === 'system' || theme === 'adaptive';
+    const query = followsSystem ? window.matchMedia(colorSchemeQuery) : null;
+    const handleSchemeChange = () => applyTheme(theme);
+    query?.addEventListener('change', handleSchemeChange);
     try {
       localStorage.setItem(themeStorageKey, theme);
     } catch (error) {
       console.warn('Could not persist theme preference', error);
     }
+    return () => query?.removeEventListener('change', handleSchemeChange);
   }, [theme]);
 
   const initialize = async () => {
     try {
-      // Migration: Check if we have localStorage settings but no DB settings
-      // This is a simple heuristic: if DB returns defaults but localStorage has 'selectToSearchSettings', migrate.
-      const dbSettings = await getSettings();
-      const localSettingsJson = localStorage.getItem('selectToSearchSettings');
-
-      let finalSettings = dbSettings;
-
-      if (localSettingsJson) {
-        try {
-          const localSettings = JSON.parse(localSettingsJson);
-          // If DB is fresh (matches default) and we have local settings, assume migration needed
-          // Or just always merge local settings if they exist to be safe for this transition
-          finalSettings = { ...dbSettings, ...localSettings };
-
-          // Save to DB
-          await saveSettingsToDB(finalSettings);
-
-          // Clear localStorage to avoid future confusion? 
-          // Maybe keep it for now as backup, but we won't read it again.
-          localStorage.removeItem('selectToSearchSettings');
-        } catch (e) {
-          console.error('Migration failed', e);
-        }
-      }
+      // Settings from before IndexedDB live in this page's localStorage
+      await migrateLegacySettings(localStorage);
+      const loadedSettings = await loadSettings();
 
-      setSettings(finalSettings);
-      setTheme(finalSettings.theme || 'light');
+      // Load the chosen language before the first render so the page doesn't flash in another one
+      await setUiLanguage(loadedSettings.uiLanguage).catch((error) => {
+        console.error('Failed to load the interface language:', error);
+      });
+      setSettings(loadedSettings);
+      setTheme(loadedSettings.theme || 'light');
 
       // Also check theme preference for the options page itself
       const storedTheme = localStorage.getItem(themeStorageKey);
-      if (storedTheme === 'light' || storedTheme === 'dark') {
+      if (isTheme(storedTheme)) {
         setTheme(storedTheme);
       }
 
@@ -83,7 +180,9 @@ export const OptionsPage: React.FC = () => {
   };
 
   const applyTheme = (value: Theme) => {
-    document.documentElement.dataset.theme = value;
+    const prefersDark = window.matchMedia(colorSchemeQuery).matches;
+    document.documentElement.dataset.theme =
+      value === 'light' || value === 'dark' ? value : prefersDark ? 'dark' : 'light';
   };
 
   const saveSettings = async (newSettings: Partial<Settings>) => {
@@ -94,8 +193,9 @@ export const OptionsPage: React.FC = () => {
       await saveSettingsToDB(updatedSettings);
 
       // Notify background script to broadcast changes
-      if (chrome.runtime && chrome.runtime.sendMessage) {
-        chrome.runtime.sendMessage({ type: 'SETTINGS_UPDATED', settings: updatedSettings });
+      // (skipped when previewing the page outside the extension)
+      if (chrome.runtime?.id) {
+        await sendRequest('SETTINGS_UPDATED', { settings: updatedSettings });
       }
     } catch (error) {
       console.error('Failed to save settings:', error);
@@ -112,17 +212,165 @@ export const OptionsPage: React.FC = () => {
     saveSettings({ enabled });
   };
 
-  const handleProviderChange = (provider: keyof Settings['providers'], enabled: boolean) => {
-    const newProviders = { ...settings.providers, [provider]: enabled };
+  const handleAffordanceModeChange = (affordanceMode: Settings['affordanceMode']) => {
+    saveSettings({ affordanceMode });
+  };
+
+  const handleUiLanguageChange = (uiLanguage: UiLanguage | '') => {
+    saveSettings({ uiLanguage });
+  };
+
+  const handleGroupTabsChange = (groupTabsBySource: boolean) => {
+    saveSettings({ groupTabsBySource });
+  };
+
+  const handleScrollThresholdChange = (scrollThreshold: number) => {
+    saveSettings({ scrollThreshold });
+  };
+
+  const handleToolbarLayoutChange = (layout: Partial<ToolbarLayout>) => {
+    saveSettings({ toolbarLayout: { ...settings.toolbarLayout, ...layout } });
+  };
+
+  /** Move a provider to `toIndex`; the provider list order is the toolbar order. */
+  const handleProviderMove = (providerId: string, toIndex: number) => {
+    const fromIndex = settings.providers.findIndex((provider) => provider.id === providerId);
+    if (fromIndex === -1 || fromIndex === toIndex || toIndex < 0 || toIndex >= settings.providers.length) {
+      return;
+    }
+    const providers = [...settings.providers];
+    const [moved] = providers.splice(fromIndex, 1);
+    providers.splice(toIndex, 0, moved);
+    saveSettings({ providers });
+  };
+
+  const handleProviderDragEnd = () => {
+    setDraggedProviderId(null);
+    setDropTargetId(null);
+  };
+
+  const handleProviderDrop = (targetId: string) => {
+    if (draggedProviderId) {
+      handleProviderMove(
+        draggedProviderId,
+        settings.providers.findIndex((provider) => provider.id === targetId)
+      );
+    }
+    handleProviderDragEnd();
+  };
+
+  const handleDragHandleKeyDown = (event: React.KeyboardEvent, providerId: string, index: number) => {
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      handleProviderMove(providerId, event.key === 'ArrowUp' ? index - 1 : index + 1);
+    }
+  };
+
+  const getDropPosition = (providerId: string) => {
+    if (!draggedProviderId || dropTargetId !== providerId || draggedProviderId === providerId) {
+      return '';
+    }
+    const ids = settings.providers.map((provider) => provider.id);
+    return ids.indexOf(draggedProviderId) < ids.indexOf(providerId) ? ' drop-after' : ' drop-before';
+  };
+
+  const handleProviderChange = (providerId: string, enabled: boolean) => {
+    const newProviders = settings.providers.map((provider) =>
+      provider.id === providerId ? { ...provider, enabled } : provider
+    );
     saveSettings({ providers: newProviders });
   };
 
-  const hasAnyProviderEnabled = Object.values(settings.providers).some(Boolean);
+  const handleProviderSave = (draft: ProviderDraft) => {
+    if (editingProviderId === NEW_PROVIDER) {
+      const provider: ProviderConfig = {
+        id: createSlugId(draft.name, settings.providers, 'provider'),
+        ...draft,
+        enabled: true,
+      };
+      saveSettings({ providers: [...settings.providers, provider] });
+    } else {
+      const newProviders = settings.providers.map((provider) =>
+        provider.id === editingProviderId ? { ...provider, ...draft } : provider
+      );
+      saveSettings({ providers: newProviders });
+    }
+    setEditingProviderId(null);
+  };
+
+  const handleProviderDelete = (provider: ProviderConfig) => {
+    if (!window.confirm(t('providerDeleteConfirm', provider.name))) {
+      return;
+    }
+    saveSettings({ providers: settings.providers.filter((entry) => entry.id !== provider.id) });
+  };
+
+  const handleProviderTest = (provider: ProviderTestTarget) => {
+    window.open(applyProviderOptions(buildProviderUrl(provider.urlTemplate, testQuery), provider), '_blank', 'noopener');
+  };
+
+  const handleTemplateSave = (draft: PromptTemplateDraft) => {
+    if (editingTemplateId === NEW_TEMPLATE) {
+      const promptTemplate: PromptTemplate = {
+        id: createSlugId(draft.name, settings.promptTemplates, 'template'),
+        ...draft,
+      };
+      saveSettings({ promptTemplates: [...settings.promptTemplates, promptTemplate] });
+    } else {
+      const newTemplates = settings.promptTemplates.map((promptTemplate) =>
+        promptTemplate.id === editingTemplateId ? { ...promptTemplate, ...draft } : promptTemplate
+      );
+      saveSettings({ promptTemplates: newTemplates });
+    }
+    setEditingTemplateId(null);
+  };
+
+  const handleTemplateDelete = (promptTemplate: PromptTemplate) => {
+    if (!window.confirm(t('templateDeleteConfirm', promptTemplate.name))) {
+      return;
+    }
+    saveSettings({
+      promptTemplates: settings.promptTemplates.filter((entry) => entry.id !== promptTemplate.id),
+    });
+  };
+
+  const handlePromptLanguageChange = (promptLanguage: string) => {
+    if (promptLanguage.trim() !== settings.promptLanguage) {
+      saveSettings({ promptLanguage: promptLanguage.trim() });
+    }
+  };
+
+  const handleConfigImport = async (imported: Settings) => {
+    setTheme(imported.theme || 'light');
+    await saveSettings(imported);
+  };
+
+  const renderProviderIcon = (provider: ProviderConfig) => {
+    const iconSrc = resolveIconSrc(provider.icon);
+    if (iconSrc) {
+      return <img src={iconSrc} alt={t('providerLogoAlt', provider.name)} className="provider-icon" />;
+    }
+    return (
+      <span className="provider-icon provider-icon-fallback" aria-hidden="true">
+        {provider.name.charAt(0).toUpperCase()}
+      </span>
+    );
+  };
+
+  const getProviderHost = (provider: ProviderConfig) => {
+    try {
+      return new URL(buildProviderUrl(provider.urlTemplate, '')).hostname;
+    } catch (_error) {
+      return provider.urlTemplate;
+    }
+  };
+
+  const hasAnyProviderEnabled = settings.providers.some((provider) => provider.enabled);
 
   if (isLoading) {
     return (
       <div className="options-shell">
-        <div className="loading-card">Loading your preferences...</div>
+        <div className="loading-card">{t('optionsLoading')}</div>
       </div>
     );
   }
@@ -133,7 +381,7 @@ export const OptionsPage: React.FC = () => {
         <div className="page-heading">
           <img
             src="/icons/logo-options-page.svg"
-            alt="Select to Search"
+            alt={t('appName')}
             className="logo-options-page"
           />
         </div>
@@ -142,11 +390,11 @@ export const OptionsPage: React.FC = () => {
             href="https://www.buymeacoffee.com/saurabhs"
             target="_blank"
             rel="noreferrer"
-            aria-label="Buy me a coffee"
+            aria-label={t('buyMeACoffee')}
           >
             <img
               src="https://cdn.buymeacoffee.com/buttons/v2/default-yellow.png"
-              alt="Buy Me A Coffee"
+              alt={t('buyMeACoffee')}
               style={{ height: '50px', width: '182px' }}
             />
           </a>
@@ -155,21 +403,19 @@ export const OptionsPage: React.FC = () => {
 
       <main className="page-content">
         <section className="section">
-          <p className="section-label">General</p>
+          <p className="section-label">{t('sectionGeneral')}</p>
           <div className="card">
             <div className="setting-row">
               <div className="setting-copy">
-                <div className="setting-title">Enable Extension</div>
-                <p className="setting-description">
-                  Show quick actions whenever you highlight text
-                </p>
+                <div className="setting-title">{t('enableTitle')}</div>
+                <p className="setting-description">{t('enableDescription')}</p>
               </div>
               <label className="switch">
                 <input
                   type="checkbox"
                   checked={settings.enabled}
                   onChange={(e) => handleEnabledChange(e.target.checked)}
-                  aria-label="Toggle Select to Search"
+                  aria-label={t('enableLabel')}
                 />
                 <span className="switch-track">
                   <span className="switch-thumb" />
@@ -179,94 +425,395 @@ export const OptionsPage: React.FC = () => {
 
             <div className="setting-row">
               <div className="setting-copy">
-                <div className="setting-title">Interface theme</div>
-                <p className="setting-description">
-                  Keep a bright workspace by default or swap to the dark palette.
-                </p>
+                <div className="setting-title">{t('affordanceTitle')}</div>
+                <p className="setting-description">{t('affordanceDescription')}</p>
               </div>
-              <div className="segmented-control" role="group" aria-label="Select interface theme">
+              <div className="segmented-control" role="group" aria-label={t('affordanceLabel')}>
                 <button
                   type="button"
-                  className={theme === 'light' ? 'active' : ''}
-                  onClick={() => handleThemeChange('light')}
-                  aria-pressed={theme === 'light'}
+                  className={settings.affordanceMode === 'quick-actions' ? 'active' : ''}
+                  onClick={() => handleAffordanceModeChange('quick-actions')}
+                  aria-pressed={settings.affordanceMode === 'quick-actions'}
                 >
-                  Light
+                  {t('affordanceQuickActions')}
                 </button>
                 <button
                   type="button"
-                  className={theme === 'dark' ? 'active' : ''}
-                  onClick={() => handleThemeChange('dark')}
-                  aria-pressed={theme === 'dark'}
+                  className={settings.affordanceMode === 'picker' ? 'active' : ''}
+                  onClick={() => handleAffordanceModeChange('picker')}
+                  aria-pressed={settings.affordanceMode === 'picker'}
                 >
-                  Dark
+                  {t('affordancePicker')}
                 </button>
               </div>
             </div>
+
+            {LAYOUT_FIELDS.map((field) => (
+              <div className="setting-row" key={field}>
+                <div className="setting-copy">
+                  <div className="setting-title">{t(LAYOUT_OPTIONS[field].title)}</div>
+                </div>
+                <div className="segmented-control" role="group" aria-label={t(LAYOUT_OPTIONS[field].title)}>
+                  {LAYOUT_OPTIONS[field].options.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      className={settings.toolbarLayout[field] === option.value ? 'active' : ''}
+                      onClick={() => handleToolbarLayoutChange({ [field]: option.value })}
+                      aria-pressed={settings.toolbarLayout[field] === option.value}
+                    >
+                      {t(option.label)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="setting-row">
+              <div className="setting-copy">
+                <div className="setting-title">{t('themeTitle')}</div>
+                <p className="setting-description">{t('themeDescription')}</p>
+              </div>
+              <div className="segmented-control" role="group" aria-label={t('themeLabel')}>
+                {THEME_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    className={theme === option.value ? 'active' : ''}
+                    onClick={() => handleThemeChange(option.value)}
+                    aria-pressed={theme === option.value}
+                  >
+                    {t(option.label)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="setting-row">
+              <div className="setting-copy">
+                <div className="setting-title">{t('uiLanguageTitle')}</div>
+                <p className="setting-description">{t('uiLanguageDescription')}</p>
+              </div>
+              <select
+                className="text-input compact-input"
+                value={settings.uiLanguage}
+                onChange={(e) => handleUiLanguageChange(e.target.value as UiLanguage | '')}
+                aria-label={t('uiLanguageTitle')}
+              >
+                <option value="">{t('uiLanguageBrowser')}</option>
+                {(Object.keys(UI_LANGUAGES) as UiLanguage[]).map((language) => (
+                  <option key={language} value={language} lang={language}>
+                    {UI_LANGUAGES[language]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="setting-row">
+              <div className="setting-copy">
+                <div className="setting-title">{t('groupTabsTitle')}</div>
+                <p className="setting-description">{t('groupTabsDescription', t('menuAskAll'))}</p>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  checked={settings.groupTabsBySource}
+                  onChange={(e) => handleGroupTabsChange(e.target.checked)}
+                  aria-label={t('groupTabsLabel')}
+                />
+                <span className="switch-track">
+                  <span className="switch-thumb" />
+                </span>
+              </label>
+            </div>
+
+            <div className="setting-row">
+              <div className="setting-copy">
+                <div className="setting-title">{t('scrollTitle')}</div>
+                <p className="setting-description">{t('scrollDescription')}</p>
+              </div>
+              <select
+                className="text-input compact-input"
+                value={settings.scrollThreshold}
+                onChange={(e) => handleScrollThresholdChange(Number(e.target.value))}
+                aria-label={t('scrollLabel')}
+              >
+                {SCROLL_THRESHOLD_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.label, option.value)}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </section>
 
         {settings.enabled && (
           <section className="section">
-            <p className="section-label">Providers</p>
+            <p className="section-label">{t('sectionProviders')}</p>
             <div className="card">
-              {providerOrder.map(
-                (provider) =>
-                  settings.providers[provider] !== undefined && (
-                    <div className="setting-row" key={provider}>
-                      <div className="setting-copy">
-                        <div className="setting-label">
-                          <img
-                            src={providerIcons[provider]}
-                            alt={`${provider} logo`}
-                            className="provider-icon"
-                          />
-                          <span className="setting-title">
-                            {provider === 'chatgpt' && 'ChatGPT'}
-                            {provider === 'google' && 'Google Search'}
-                            {provider === 'claude' && 'Claude'}
-                          </span>
-                        </div>
+              {settings.providers.map((provider, index) =>
+                editingProviderId === provider.id ? (
+                  <div className="setting-row" key={provider.id}>
+                    <ProviderForm
+                      provider={provider}
+                      onSave={handleProviderSave}
+                      onTest={handleProviderTest}
+                      onCancel={() => setEditingProviderId(null)}
+                    />
+                  </div>
+                ) : (
+                  <div
+                    className={`setting-row${draggedProviderId === provider.id ? ' dragging' : ''}${getDropPosition(provider.id)}`}
+                    key={provider.id}
+                    draggable={!editingProviderId}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', provider.name);
+                      setDraggedProviderId(provider.id);
+                    }}
+                    onDragOver={(e) => {
+                      if (draggedProviderId) {
+                        e.preventDefault();
+                        setDropTargetId(provider.id);
+                      }
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleProviderDrop(provider.id);
+                    }}
+                    onDragEnd={handleProviderDragEnd}
+                  >
+                    <div className="setting-copy">
+                      <div className="setting-label">
+                        <button
+                          type="button"
+                          className="drag-handle"
+                          title={t('providerDragTitle')}
+                          aria-label={t('providerMoveLabel', provider.name)}
+                          onKeyDown={(e) => handleDragHandleKeyDown(e, provider.id, index)}
+                        >
+                          ⠿
+                        </button>
+                        {renderProviderIcon(provider)}
+                        <span className="setting-title">{provider.name}</span>
+                        {!provider.builtIn && (
+                          <span className="provider-host">{getProviderHost(provider)}</span>
+                        )}
                       </div>
+                    </div>
+                    <div className="row-actions">
+                      <button
+                        type="button"
+                        className="text-button"
+                        onClick={() => handleProviderTest(provider)}
+                      >
+                        {t('buttonTest')}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-button"
+                        onClick={() => setEditingProviderId(provider.id)}
+                      >
+                        {t('buttonEdit')}
+                      </button>
+                      {!provider.builtIn && (
+                        <button
+                          type="button"
+                          className="text-button danger"
+                          onClick={() => handleProviderDelete(provider)}
+                        >
+                          {t('buttonDelete')}
+                        </button>
+                      )}
                       <label className="switch">
                         <input
                           type="checkbox"
-                          checked={settings.providers[provider]}
-                          onChange={(e) => handleProviderChange(provider, e.target.checked)}
-                          aria-label={`Toggle ${provider} provider`}
+                          checked={provider.enabled}
+                          onChange={(e) => handleProviderChange(provider.id, e.target.checked)}
+                          aria-label={t('providerToggleLabel', provider.name)}
                         />
                         <span className="switch-track">
                           <span className="switch-thumb" />
                         </span>
                       </label>
                     </div>
-                  ),
+                  </div>
+                ),
+              )}
+
+              {editingProviderId === NEW_PROVIDER ? (
+                <div className="setting-row">
+                  <ProviderForm
+                    onSave={handleProviderSave}
+                    onTest={handleProviderTest}
+                    onCancel={() => setEditingProviderId(null)}
+                  />
+                </div>
+              ) : (
+                <div className="setting-row">
+                  <div className="setting-copy">
+                    <p className="setting-description">{t('providerAddDescription')}</p>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-button"
+                    onClick={() => setEditingProviderId(NEW_PROVIDER)}
+                  >
+                    {t('providerAdd')}
+                  </button>
+                </div>
               )}
 
-              {!hasAnyProviderEnabled && (
+              {!hasAnyProviderEnabled && settings.affordanceMode === 'quick-actions' && (
                 <div className="setting-row no-border">
                   <div className="setting-copy">
-                    <div className="warning">
-                      At least one provider needs to stay on for the floating actions to work.
+                    <div className="warning">{t('providerNoneEnabled')}</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+
+        {settings.enabled && (
+          <section className="section">
+            <p className="section-label">{t('sectionPromptTemplates')}</p>
+            <div className="card">
+              {settings.promptTemplates.map((promptTemplate) =>
+                editingTemplateId === promptTemplate.id ? (
+                  <div className="setting-row" key={promptTemplate.id}>
+                    <PromptTemplateForm
+                      promptTemplate={promptTemplate}
+                      onSave={handleTemplateSave}
+                      onCancel={() => setEditingTemplateId(null)}
+                    />
+                  </div>
+                ) : (
+                  <div className="setting-row" key={promptTemplate.id}>
+                    <div className="setting-copy">
+                      <div className="setting-title">{promptTemplate.name}</div>
+                      <p className="setting-description template-preview">{promptTemplate.template}</p>
+                    </div>
+                    <div className="row-actions">
+                      <button
+                        type="button"
+                        className="text-button"
+                        onClick={() => setEditingTemplateId(promptTemplate.id)}
+                      >
+                        {t('buttonEdit')}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-button danger"
+                        onClick={() => handleTemplateDelete(promptTemplate)}
+                      >
+                        {t('buttonDelete')}
+                      </button>
                     </div>
                   </div>
+                ),
+              )}
+
+              {editingTemplateId === NEW_TEMPLATE ? (
+                <div className="setting-row">
+                  <PromptTemplateForm
+                    onSave={handleTemplateSave}
+                    onCancel={() => setEditingTemplateId(null)}
+                  />
+                </div>
+              ) : (
+                <div className="setting-row">
+                  <div className="setting-copy">
+                    <p className="setting-description">{t('templatesDescription')}</p>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-button"
+                    onClick={() => setEditingTemplateId(NEW_TEMPLATE)}
+                  >
+                    {t('templateAdd')}
+                  </button>
                 </div>
               )}
+
+              <div className="setting-row">
+                <div className="setting-copy">
+                  <div className="setting-title">{t('promptLanguageTitle')}</div>
+                  <p className="setting-description">{t('promptLanguageDescription', '{language}')}</p>
+                </div>
+                <input
+                  type="text"
+                  className="text-input compact-input"
+                  key={settings.promptLanguage}
+                  defaultValue={settings.promptLanguage}
+                  onBlur={(e) => handlePromptLanguageChange(e.target.value)}
+                  placeholder={t('promptLanguagePlaceholder')}
+                  aria-label={t('promptLanguageLabel')}
+                />
+              </div>
             </div>
           </section>
         )}
 
+        {settings.enabled && (
+          <section className="section">
+            <p className="section-label">{t('sectionSites')}</p>
+            <SiteRulesSection
+              siteRules={settings.siteRules}
+              onChange={(siteRules) => saveSettings({ siteRules })}
+            />
+          </section>
+        )}
+
+        {settings.enabled && (
+          <section className="section">
+            <p className="section-label">{t('sectionTrigger')}</p>
+            <TriggerSection trigger={settings.trigger} onChange={(trigger) => saveSettings({ trigger })} />
+          </section>
+        )}
+
+        {settings.enabled && (
+          <section className="section">
+            <p className="section-label">{t('sectionSmartActions')}</p>
+            <SelectionActionsSection
+              selectionActions={settings.selectionActions}
+              onChange={(selectionActions) => saveSettings({ selectionActions })}
+            />
+          </section>
+        )}
+
+        {settings.enabled && (
+          <section className="section">
+            <p className="section-label">{t('sectionKeyboardShortcuts')}</p>
+            <KeyboardShortcuts providers={settings.providers} />
+          </section>
+        )}
+
+        <section className="section">
+          <p className="section-label">{t('sectionHistory')}</p>
+          <HistorySection
+            providers={settings.providers}
+            retention={settings.history}
+            onRetentionChange={(history) => saveSettings({ history })}
+          />
+        </section>
+
+        <section className="section">
+          <p className="section-label">{t('sectionUsage')}</p>
+          <UsageDashboard providers={settings.providers} />
+        </section>
+
+        <section className="section">
+          <p className="section-label">{t('sectionConfiguration')}</p>
+          <ConfigTransfer settings={settings} onImport={handleConfigImport} />
+        </section>
 
         <section className="section">
-          <p className="section-label">About</p>
+          <p className="section-label">{t('sectionAbout')}</p>
           <div className="card">
             <div className="setting-row no-border">
               <div className="setting-copy">
-                <div className="setting-title">Version {chrome.runtime.getManifest().version}</div>
-                <p className="setting-description">
-                  Highlight any text and use the floating buttons to send it to your chosen
-                  provider. Each pick opens in a new tab so you stay in flow.
-                </p>
+                <div className="setting-title">{t('aboutVersion', chrome.runtime.getManifest().version)}</div>
+                <p className="setting-description">{t('aboutDescription')}</p>
               </div>
             </div>
           </div>
@@ -0,0 +1,83 @@
+// Add/edit form for prompt templates offered on AI provider buttons
+import React, { useState } from 'react';
+import type { PromptTemplate } from '../utils/settings';
+import { TEMPLATE_PLACEHOLDERS, validatePromptTemplate } from '../utils/templates';
+import { t } from '../utils/i18n';
+
+export interface PromptTemplateDraft {
+  name: string;
+  template: string;
+}
+
+interface PromptTemplateFormProps {
+  promptTemplate?: PromptTemplate;
+  onSave: (draft: PromptTemplateDraft) => void;
+  onCancel: () => void;
+}
+
+export const PromptTemplateForm: React.FC<PromptTemplateFormProps> = ({ promptTemplate, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<PromptTemplateDraft>({
+    name: promptTemplate?.name ?? '',
+    template: promptTemplate?.template ?? '{selection}',
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<PromptTemplateDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setError(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!draft.name.trim()) {
+      setError(t('errorTemplateName'));
+      return;
+    }
+
+    const templateError = validatePromptTemplate(draft.template);
+    if (templateError) {
+      setError(templateError);
+      return;
+    }
+
+    onSave({ name: draft.name.trim(), template: draft.template });
+  };
+
+  return (
+    <form className="provider-form" onSubmit={handleSubmit}>
+      <label className="field">
+        <span className="field-label">{t('fieldName')}</span>
+        <input
+          type="text"
+          className="text-input"
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          placeholder={t('templateNamePlaceholder')}
+        />
+      </label>
+
+      <label className="field">
+        <span className="field-label">{t('fieldPrompt')}</span>
+        <textarea
+          className="text-input"
+          rows={4}
+          value={draft.template}
+          onChange={(e) => updateDraft({ template: e.target.value })}
+        />
+        <span className="field-hint">{t('templatePlaceholdersHint', TEMPLATE_PLACEHOLDERS.join(', '))}</span>
+      </label>
+
+      {error && <div className="field-error" role="alert">{error}</div>}
+
+      <div className="form-actions">
+        <button type="button" className="text-button" onClick={onCancel}>
+          {t('buttonCancel')}
+        </button>
+        <button type="submit" className="primary-button">
+          {t(promptTemplate ? 'buttonSaveChanges' : 'templateAdd')}
+        </button>
+      </div>
+    </form>
+  );
+};
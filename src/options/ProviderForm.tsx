@@ -0,0 +1,305 @@
+// Add/edit form for entries in the provider registry
+import React, { useState } from 'react';
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  DEFAULT_MAX_URL_LENGTH,
+  DEFAULT_TAB_BEHAVIOR,
+  PageContextSettings,
+  ProviderConfig,
+  ProviderQueryOptions,
+  TabBehavior,
+} from '../utils/settings';
+import { findInvalidOption, PROVIDER_OPTIONS, QUERY_PLACEHOLDER, validateUrlTemplate } from '../utils/providers';
+import { MessageKey, t } from '../utils/i18n';
+
+export interface ProviderDraft {
+  name: string;
+  urlTemplate: string;
+  icon: string;
+  acceptsPrompts: boolean;
+  tabBehavior: TabBehavior;
+  pageContext: PageContextSettings;
+  maxUrlLength: number;
+  queryOptions?: ProviderQueryOptions;
+}
+
+export type ProviderTestTarget = Pick<ProviderConfig, 'id' | 'urlTemplate' | 'queryOptions'>;
+
+const TAB_BEHAVIOR_OPTIONS: { value: TabBehavior; label: MessageKey }[] = [
+  { value: 'adjacent', label: 'tabBehaviorAdjacent' },
+  { value: 'end', label: 'tabBehaviorEnd' },
+  { value: 'window', label: 'tabBehaviorWindow' },
+  { value: 'reuse', label: 'tabBehaviorReuse' },
+];
+
+interface ProviderFormProps {
+  provider?: ProviderConfig;
+  onSave: (draft: ProviderDraft) => void;
+  onTest: (provider: ProviderTestTarget) => void;
+  onCancel: () => void;
+}
+
+export const ProviderForm: React.FC<ProviderFormProps> = ({ provider, onSave, onTest, onCancel }) => {
+  const [draft, setDraft] = useState<ProviderDraft>({
+    name: provider?.name ?? '',
+    urlTemplate: provider?.urlTemplate ?? '',
+    icon: provider?.icon ?? '',
+    acceptsPrompts: provider?.acceptsPrompts ?? false,
+    tabBehavior: provider?.tabBehavior ?? DEFAULT_TAB_BEHAVIOR,
+    pageContext: provider?.pageContext ?? { enabled: false, maxChars: DEFAULT_CONTEXT_BUDGET },
+    maxUrlLength: provider?.maxUrlLength ?? DEFAULT_MAX_URL_LENGTH,
+    queryOptions: provider?.queryOptions ?? {},
+  });
+  // Built-in providers with advanced URL options (Google, ChatGPT, Claude)
+  const providerOptions = provider ? PROVIDER_OPTIONS[provider.id]?.options ?? [] : [];
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<ProviderDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setError(null);
+  };
+
+  const updateQueryOption = (key: string, value: string | boolean) => {
+    updateDraft({ queryOptions: { ...draft.queryOptions, [key]: value } });
+  };
+
+  const getQueryOptions = (): ProviderQueryOptions | undefined => {
+    if (!providerOptions.length || !draft.queryOptions) {
+      return undefined;
+    }
+    const queryOptions: ProviderQueryOptions = {};
+    // Unset options are left out rather than stored empty
+    providerOptions.forEach(({ key }) => {
+      const value = draft.queryOptions?.[key];
+      const trimmed = typeof value === 'string' ? value.trim() : value;
+      if (trimmed) {
+        queryOptions[key] = trimmed;
+      }
+    });
+    return queryOptions;
+  };
+
+  const validate = (): boolean => {
+    if (!draft.name.trim()) {
+      setError(t('errorProviderName'));
+      return false;
+    }
+
+    if (!(Number.isInteger(draft.maxUrlLength) && draft.maxUrlLength > 0)) {
+      setError(t('errorUrlLength'));
+      return false;
+    }
+
+    if (draft.pageContext.enabled && !(Number.isInteger(draft.pageContext.maxChars) && draft.pageContext.maxChars > 0)) {
+      setError(t('errorContextBudget'));
+      return false;
+    }
+
+    const templateError = validateUrlTemplate(draft.urlTemplate);
+    if (templateError) {
+      setError(templateError);
+      return false;
+    }
+
+    const invalidOption = provider && draft.queryOptions ? findInvalidOption(provider.id, draft.queryOptions) : null;
+    if (invalidOption) {
+      setError(t('errorInvalidOption', [t(invalidOption.label), t(invalidOption.hint ?? 'errorOptionValue')]));
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (validate()) {
+      onSave({
+        name: draft.name.trim(),
+        urlTemplate: draft.urlTemplate.trim(),
+        icon: draft.icon.trim(),
+        acceptsPrompts: draft.acceptsPrompts,
+        tabBehavior: draft.tabBehavior,
+        pageContext: draft.pageContext,
+        maxUrlLength: draft.maxUrlLength,
+        queryOptions: getQueryOptions(),
+      });
+    }
+  };
+
+  const handleTest = () => {
+    const templateError = validateUrlTemplate(draft.urlTemplate);
+    if (templateError) {
+      setError(templateError);
+      return;
+    }
+    onTest({ id: provider?.id ?? '', urlTemplate: draft.urlTemplate.trim(), queryOptions: getQueryOptions() });
+  };
+
+  return (
+    <form className="provider-form" onSubmit={handleSubmit}>
+      <label className="field">
+        <span className="field-label">{t('fieldName')}</span>
+        <input
+          type="text"
+          className="text-input"
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          placeholder="Perplexity"
+        />
+      </label>
+
+      <label className="field">
+        <span className="field-label">{t('fieldUrlTemplate')}</span>
+        <input
+          type="text"
+          className="text-input"
+          value={draft.urlTemplate}
+          onChange={(e) => updateDraft({ urlTemplate: e.target.value })}
+          placeholder={`https://www.perplexity.ai/search?q=${QUERY_PLACEHOLDER}`}
+          spellCheck={false}
+        />
+        <span className="field-hint">{t('urlTemplateHint', QUERY_PLACEHOLDER)}</span>
+      </label>
+
+      <label className="field">
+        <span className="field-label">{t('fieldIcon')}</span>
+        <input
+          type="text"
+          className="text-input"
+          value={draft.icon}
+          onChange={(e) => updateDraft({ icon: e.target.value })}
+          placeholder="https://example.com/favicon.svg"
+          spellCheck={false}
+        />
+      </label>
+
+      <label className="field">
+        <span className="field-label">{t('fieldUrlLength')}</span>
+        <input
+          type="number"
+          className="text-input compact-input"
+          min={1}
+          value={draft.maxUrlLength}
+          onChange={(e) => updateDraft({ maxUrlLength: Number(e.target.value) })}
+        />
+        <span className="field-hint">{t('urlLengthHint')}</span>
+      </label>
+
+      <label className="field">
+        <span className="field-label">{t('fieldTabBehavior')}</span>
+        <select
+          className="text-input"
+          value={draft.tabBehavior}
+          onChange={(e) => updateDraft({ tabBehavior: e.target.value as TabBehavior })}
+        >
+          {TAB_BEHAVIOR_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {t(option.label)}
+            </option>
+          ))}
+        </select>
+        <span className="field-hint">{t('tabBehaviorHint')}</span>
+      </label>
+
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={draft.acceptsPrompts}
+          onChange={(e) => updateDraft({ acceptsPrompts: e.target.checked })}
+        />
+        <span>{t('acceptsPromptsLabel')}</span>
+      </label>
+
+      {draft.acceptsPrompts && (
+        <div className="field">
+          <label className="checkbox-field">
+            <input
+              type="checkbox"
+              checked={draft.pageContext.enabled}
+              onChange={(e) => updateDraft({ pageContext: { ...draft.pageContext, enabled: e.target.checked } })}
+            />
+            <span>{t('pageContextLabel')}</span>
+          </label>
+          {draft.pageContext.enabled && (
+            <label className="field">
+              <span className="field-label">{t('fieldContextBudget')}</span>
+              <input
+                type="number"
+                className="text-input compact-input"
+                min={1}
+                value={draft.pageContext.maxChars}
+                onChange={(e) =>
+                  updateDraft({ pageContext: { ...draft.pageContext, maxChars: Number(e.target.value) } })
+                }
+              />
+              <span className="field-hint">{t('contextBudgetHint', t('menuPreviewContext'))}</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {providerOptions.length > 0 && (
+        <fieldset className="field advanced-options">
+          <legend className="field-label">{t('advancedOptions')}</legend>
+          {providerOptions.map((option) => {
+            const value = draft.queryOptions?.[option.key];
+            if (option.flag) {
+              return (
+                <label className="checkbox-field" key={option.key}>
+                  <input
+                    type="checkbox"
+                    checked={value === true}
+                    onChange={(e) => updateQueryOption(option.key, e.target.checked)}
+                  />
+                  <span>{t(option.label)}</span>
+                </label>
+              );
+            }
+            return (
+              <label className="field" key={option.key}>
+                <span className="field-label">{t(option.label)}</span>
+                {option.choices ? (
+                  <select
+                    className="text-input"
+                    value={typeof value === 'string' ? value : ''}
+                    onChange={(e) => updateQueryOption(option.key, e.target.value)}
+                  >
+                    {option.choices.map((choice) => (
+                      <option key={choice.value} value={choice.value}>
+                        {t(choice.label)}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    className="text-input compact-input"
+                    value={typeof value === 'string' ? value : ''}
+                    onChange={(e) => updateQueryOption(option.key, e.target.value)}
+                    placeholder={option.placeholder}
+                    spellCheck={false}
+                  />
+                )}
+                {option.hint && <span className="field-hint">{t(option.hint)}</span>}
+              </label>
+            );
+          })}
+        </fieldset>
+      )}
+
+      {error && <div className="field-error" role="alert">{error}</div>}
+
+      <div className="form-actions">
+        <button type="button" className="text-button" onClick={handleTest}>
+          {t('buttonTest')}
+        </button>
+        <button type="button" className="text-button" onClick={onCancel}>
+          {t('buttonCancel')}
+        </button>
+        <button type="submit" className="primary-button">
+          {t(provider ? 'buttonSaveChanges' : 'providerAdd')}
+        </button>
+      </div>
+    </form>
+  );
+};
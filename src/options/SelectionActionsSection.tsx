@@ -0,0 +1,81 @@
+// Contextual toolbar actions for recognized kinds of selections (links, errors, ...)
+import React from 'react';
+import {
+  SELECTION_ACTIONS_BY_KIND,
+  SELECTION_KINDS,
+  SelectionAction,
+  SelectionActions,
+  SelectionKind,
+} from '../utils/settings';
+import { MessageKey, t } from '../utils/i18n';
+
+interface SelectionActionsSectionProps {
+  selectionActions: SelectionActions;
+  onChange: (selectionActions: SelectionActions) => void;
+}
+
+// Examples are sample selections and stay untranslated
+const KIND_LABELS: Record<SelectionKind, { title: MessageKey; example: string }> = {
+  url: { title: 'selectionKindUrl', example: 'https://example.com' },
+  email: { title: 'selectionKindEmail', example: 'name@example.com' },
+  phone: { title: 'selectionKindPhone', example: '+1 555 010 0199' },
+  address: { title: 'selectionKindAddress', example: '221 Baker Street, London NW1 6XE' },
+  code: { title: 'selectionKindCode', example: 'const total = items.reduce(sum, 0);' },
+  error: { title: 'selectionKindError', example: 'TypeError: Cannot read properties of undefined' },
+  math: { title: 'selectionKindMath', example: '(12 + 30) * 1.5' },
+  foreign: { title: 'selectionKindForeign', example: 'Ceci est un texte dans une autre langue.' },
+};
+
+const ACTION_LABELS: Record<SelectionAction, MessageKey> = {
+  'open-link': 'selectionActionOpenLink',
+  'send-email': 'selectionActionSendEmail',
+  call: 'selectionActionCall',
+  'open-map': 'selectionActionOpenMap',
+  copy: 'selectionActionCopy',
+  'search-exact': 'selectionActionSearchExact',
+  calculate: 'selectionActionCalculate',
+  explain: 'selectionActionExplain',
+  translate: 'selectionActionTranslate',
+};
+
+export const SelectionActionsSection: React.FC<SelectionActionsSectionProps> = ({ selectionActions, onChange }) => {
+  const handleToggle = (kind: SelectionKind, action: SelectionAction, checked: boolean) => {
+    // Keep the toolbar order fixed regardless of the order actions were ticked in
+    const actions = SELECTION_ACTIONS_BY_KIND[kind].filter((entry) =>
+      entry === action ? checked : selectionActions[kind].includes(entry)
+    );
+    onChange({ ...selectionActions, [kind]: actions });
+  };
+
+  return (
+    <div className="card">
+      {SELECTION_KINDS.map((kind) => (
+        <div className="setting-row" key={kind}>
+          <div className="setting-copy">
+            <div className="setting-title">{t(KIND_LABELS[kind].title)}</div>
+            <p className="setting-description">{KIND_LABELS[kind].example}</p>
+          </div>
+          <div
+            className="row-actions action-choices"
+            role="group"
+            aria-label={t('selectionActionsGroupLabel', t(KIND_LABELS[kind].title))}
+          >
+            {SELECTION_ACTIONS_BY_KIND[kind].map((action) => (
+              <label className="checkbox-field" key={action}>
+                <input
+                  type="checkbox"
+                  checked={selectionActions[kind].includes(action)}
+                  onChange={(e) => handleToggle(kind, action, e.target.checked)}
+                />
+                <span>{t(ACTION_LABELS[action])}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="setting-row no-border">
+        <p className="setting-description">{t('selectionActionsNote')}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+// Per-site allow/block rules for the floating toolbar
+import React, { useState } from 'react';
+import type { SiteRule, SiteRules } from '../utils/settings';
+import { normalizeSitePattern } from '../utils/siteRules';
+import { t } from '../utils/i18n';
+
+interface SiteRulesSectionProps {
+  siteRules: SiteRules;
+  onChange: (siteRules: SiteRules) => void;
+}
+
+export const SiteRulesSection: React.FC<SiteRulesSectionProps> = ({ siteRules, onChange }) => {
+  const [pattern, setPattern] = useState('');
+  const [action, setAction] = useState<SiteRule['action']>('block');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const normalized = normalizeSitePattern(pattern);
+    if (!normalized) {
+      setError(t('sitesPatternError'));
+      return;
+    }
+
+    // Re-adding a pattern replaces its previous action
+    const rules = siteRules.rules.filter((rule) => rule.pattern !== normalized);
+    onChange({ ...siteRules, rules: [...rules, { pattern: normalized, action }] });
+    setPattern('');
+    setError(null);
+  };
+
+  const handleRemove = (rule: SiteRule) => {
+    onChange({ ...siteRules, rules: siteRules.rules.filter((entry) => entry !== rule) });
+  };
+
+  return (
+    <div className="card">
+      <div className="setting-row">
+        <div className="setting-copy">
+          <div className="setting-title">{t('sitesDefaultTitle')}</div>
+          <p className="setting-description">{t('sitesDefaultDescription', t('toolbarDisableSite'))}</p>
+        </div>
+        <div className="segmented-control" role="group" aria-label={t('sitesDefaultLabel')}>
+          <button
+            type="button"
+            className={siteRules.defaultAction === 'allow' ? 'active' : ''}
+            onClick={() => onChange({ ...siteRules, defaultAction: 'allow' })}
+            aria-pressed={siteRules.defaultAction === 'allow'}
+          >
+            {t('sitesEverywhere')}
+          </button>
+          <button
+            type="button"
+            className={siteRules.defaultAction === 'block' ? 'active' : ''}
+            onClick={() => onChange({ ...siteRules, defaultAction: 'block' })}
+            aria-pressed={siteRules.defaultAction === 'block'}
+          >
+            {t('sitesAllowedOnly')}
+          </button>
+        </div>
+      </div>
+
+      {siteRules.rules.map((rule) => (
+        <div className="setting-row" key={`${rule.action}:${rule.pattern}`}>
+          <div className="setting-copy">
+            <div className="setting-title">{rule.pattern}</div>
+            <p className="setting-description">{t(rule.action === 'allow' ? 'sitesAllowed' : 'sitesBlocked')}</p>
+          </div>
+          <button type="button" className="text-button danger" onClick={() => handleRemove(rule)}>
+            {t('buttonRemove')}
+          </button>
+        </div>
+      ))}
+
+      <div className="setting-row">
+        <form className="inline-form" onSubmit={handleAdd}>
+          <input
+            type="text"
+            className="text-input"
+            value={pattern}
+            onChange={(e) => {
+              setPattern(e.target.value);
+              setError(null);
+            }}
+            placeholder={t('sitesPatternPlaceholder')}
+            aria-label={t('sitesPatternLabel')}
+            spellCheck={false}
+          />
+          <select
+            className="text-input compact-input"
+            value={action}
+            onChange={(e) => setAction(e.target.value as SiteRule['action'])}
+            aria-label={t('sitesActionLabel')}
+          >
+            <option value="block">{t('sitesBlock')}</option>
+            <option value="allow">{t('sitesAllow')}</option>
+          </select>
+          <button type="submit" className="text-button">
+            {t('sitesAddRule')}
+          </button>
+        </form>
+        {error && <div className="field-error" role="alert">{error}</div>}
+      </div>
+    </div>
+  );
+};
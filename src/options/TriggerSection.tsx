@@ -0,0 +1,160 @@
+// When the toolbar appears: a held modifier, selection length limits, a show delay and exclusion patterns
+import React, { useState } from 'react';
+import type { TriggerModifier, TriggerSettings } from '../utils/settings';
+import { MessageKey, t } from '../utils/i18n';
+
+interface TriggerSectionProps {
+  trigger: TriggerSettings;
+  onChange: (trigger: TriggerSettings) => void;
+}
+
+const MODIFIER_OPTIONS: { value: TriggerModifier; label: MessageKey }[] = [
+  { value: 'none', label: 'triggerModifierNone' },
+  { value: 'alt', label: 'triggerModifierAlt' },
+  { value: 'shift', label: 'triggerModifierShift' },
+  { value: 'ctrl', label: 'triggerModifierCtrl' },
+  { value: 'meta', label: 'triggerModifierMeta' },
+];
+
+const DELAY_OPTIONS: { value: number; label: MessageKey }[] = [
+  { value: 0, label: 'triggerDelayNone' },
+  { value: 300, label: 'triggerDelayShort' },
+  { value: 600, label: 'triggerDelayMedium' },
+  { value: 1000, label: 'triggerDelayLong' },
+];
+
+type LimitField = 'minChars' | 'maxChars' | 'minWords' | 'maxWords';
+
+const LIMITS: { field: LimitField; label: MessageKey }[] = [
+  { field: 'minChars', label: 'triggerMinChars' },
+  { field: 'maxChars', label: 'triggerMaxChars' },
+  { field: 'minWords', label: 'triggerMinWords' },
+  { field: 'maxWords', label: 'triggerMaxWords' },
+];
+
+const PURE_NUMBERS_PATTERN = '^[\\d\\s.,]+$';
+
+const parsePatterns = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function findInvalidPattern(patterns: string[]): string | undefined {
+  return patterns.find((pattern) => {
+    try {
+      new RegExp(pattern);
+      return false;
+    } catch (_error) {
+      return true;
+    }
+  });
+}
+
+export const TriggerSection: React.FC<TriggerSectionProps> = ({ trigger, onChange }) => {
+  const [patternError, setPatternError] = useState<string | null>(null);
+
+  const handleLimitChange = (field: LimitField, value: string) => {
+    const limit = Math.max(0, Math.floor(Number(value) || 0));
+    if (limit !== trigger[field]) {
+      onChange({ ...trigger, [field]: limit });
+    }
+  };
+
+  const handlePatternsChange = (text: string) => {
+    const exclusions = parsePatterns(text);
+    const invalid = findInvalidPattern(exclusions);
+    if (invalid) {
+      setPatternError(t('triggerInvalidPattern', invalid));
+      return;
+    }
+    setPatternError(null);
+    if (exclusions.join('\n') !== trigger.exclusions.join('\n')) {
+      onChange({ ...trigger, exclusions });
+    }
+  };
+
+  const addPureNumbers = () => {
+    onChange({ ...trigger, exclusions: [...trigger.exclusions, PURE_NUMBERS_PATTERN] });
+  };
+
+  return (
+    <div className="card">
+      <div className="setting-row">
+        <div className="setting-copy">
+          <div className="setting-title">{t('triggerModifierTitle')}</div>
+          <p className="setting-description">{t('triggerModifierDescription')}</p>
+        </div>
+        <select
+          className="text-input compact-input"
+          value={trigger.modifier}
+          onChange={(e) => onChange({ ...trigger, modifier: e.target.value as TriggerModifier })}
+          aria-label={t('triggerModifierLabel')}
+        >
+          {MODIFIER_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{t(option.label)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="setting-row">
+        <div className="setting-copy">
+          <div className="setting-title">{t('triggerDelayTitle')}</div>
+          <p className="setting-description">{t('triggerDelayDescription')}</p>
+        </div>
+        <select
+          className="text-input compact-input"
+          value={trigger.delayMs}
+          onChange={(e) => onChange({ ...trigger, delayMs: Number(e.target.value) })}
+          aria-label={t('triggerDelayLabel')}
+        >
+          {DELAY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{t(option.label)}</option>
+          ))}
+        </select>
+      </div>
+
+      {LIMITS.map(({ field, label }) => (
+        <div className="setting-row" key={field}>
+          <div className="setting-copy">
+            <div className="setting-title">{t(label)}</div>
+            {field.startsWith('max') && <p className="setting-description">{t('triggerNoLimit')}</p>}
+          </div>
+          <input
+            type="number"
+            min={0}
+            className="text-input compact-input"
+            key={trigger[field]}
+            defaultValue={trigger[field]}
+            onBlur={(e) => handleLimitChange(field, e.target.value)}
+            aria-label={t(label)}
+          />
+        </div>
+      ))}
+
+      <div className="setting-row no-border">
+        <label className="setting-copy field">
+          <span className="setting-title">{t('triggerExclusionsTitle')}</span>
+          <textarea
+            className="text-input"
+            key={trigger.exclusions.join('\n')}
+            defaultValue={trigger.exclusions.join('\n')}
+            onBlur={(e) => handlePatternsChange(e.target.value)}
+            rows={3}
+            placeholder={PURE_NUMBERS_PATTERN}
+            aria-describedby="trigger-patterns-hint"
+          />
+          <span className="field-hint" id="trigger-patterns-hint">
+            {t('triggerExclusionsHint')}
+          </span>
+          {patternError && <span className="field-error" role="alert">{patternError}</span>}
+        </label>
+        {!trigger.exclusions.includes(PURE_NUMBERS_PATTERN) && (
+          <button type="button" className="text-button" onClick={addPureNumbers}>
+            {t('triggerIgnoreNumbers')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+// Local usage dashboard for the PRD success metrics (U1–U3). Nothing here leaves the machine.
+import React, { useEffect, useMemo, useState } from 'react';
+import { DailyMetrics, getMetrics, toDayKey } from '../utils/db';
+import type { ProviderConfig } from '../utils/settings';
+import { t } from '../utils/i18n';
+
+interface UsageDashboardProps {
+  providers: ProviderConfig[];
+}
+
+const RANGE_PRESETS = [7, 30, 90];
+const CHART_HEIGHT = 120;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDayKey(date);
+};
+
+const emptyDay = (day: string): DailyMetrics => ({
+  day,
+  impressions: 0,
+  actions: {},
+  settingsLoads: 0,
+  settingsFallbacks: 0,
+});
+
+const sumActions = (metrics: DailyMetrics) =>
+  Object.values(metrics.actions).reduce((total, count) => total + count, 0);
+
+const formatPercent = (numerator: number, denominator: number) =>
+  denominator ? `${((numerator / denominator) * 100).toFixed(1)}%` : '—';
+
+// One entry per calendar day in the range so gaps show up as empty bars
+const fillDays = (fromDay: string, toDay: string, metrics: DailyMetrics[]): DailyMetrics[] => {
+  const byDay = new Map(metrics.map((entry) => [entry.day, entry]));
+  const days: DailyMetrics[] = [];
+  const cursor = new Date(`${fromDay}T00:00:00`);
+  const end = new Date(`${toDay}T00:00:00`);
+
+  while (cursor <= end) {
+    const day = toDayKey(cursor);
+    days.push(byDay.get(day) ?? emptyDay(day));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ providers }) => {
+  const [fromDay, setFromDay] = useState(daysAgo(29));
+  const [toDay, setToDay] = useState(toDayKey(new Date()));
+  const [metrics, setMetrics] = useState<DailyMetrics[]>([]);
+
+  useEffect(() => {
+    if (fromDay > toDay) {
+      return;
+    }
+    getMetrics(fromDay, toDay)
+      .then(setMetrics)
+      .catch((error) => console.error('Failed to load usage metrics:', error));
+  }, [fromDay, toDay]);
+
+  const days = useMemo(() => (fromDay <= toDay ? fillDays(fromDay, toDay, metrics) : []), [fromDay, toDay, metrics]);
+
+  const totals = useMemo(() => {
+    const actionsByProvider: Record<string, number> = {};
+    let impressions = 0;
+    let settingsLoads = 0;
+    let settingsFallbacks = 0;
+
+    for (const day of days) {
+      impressions += day.impressions;
+      settingsLoads += day.settingsLoads;
+      settingsFallbacks += day.settingsFallbacks;
+      for (const [providerId, count] of Object.entries(day.actions)) {
+        actionsByProvider[providerId] = (actionsByProvider[providerId] ?? 0) + count;
+      }
+    }
+
+    const actions = Object.values(actionsByProvider).reduce((total, count) => total + count, 0);
+    return { impressions, actions, actionsByProvider, settingsLoads, settingsFallbacks };
+  }, [days]);
+
+  const providerName = (providerId: string) =>
+    providers.find((provider) => provider.id === providerId)?.name ?? providerId;
+
+  const providerIds = Object.keys(totals.actionsByProvider).sort(
+    (a, b) => totals.actionsByProvider[b] - totals.actionsByProvider[a]
+  );
+  const maxProviderActions = Math.max(1, ...Object.values(totals.actionsByProvider));
+  const maxDaily = Math.max(1, ...days.map((day) => day.impressions));
+
+  const applyPreset = (length: number) => {
+    setFromDay(daysAgo(length - 1));
+    setToDay(toDayKey(new Date()));
+  };
+
+  const exportCsv = () => {
+    const header = [
+      'day',
+      'impressions',
+      'actions',
+      ...providerIds.map((providerId) => `actions_${providerId}`),
+      'click_through_rate',
+      'settings_loads',
+      'settings_fallbacks',
+    ];
+    const rows = days.map((day) => {
+      const actions = sumActions(day);
+      return [
+        day.day,
+        day.impressions,
+        actions,
+        ...providerIds.map((providerId) => day.actions[providerId] ?? 0),
+        day.impressions ? (actions / day.impressions).toFixed(4) : '',
+        day.settingsLoads,
+        day.settingsFallbacks,
+      ];
+    });
+
+    const csv = [header, ...rows].map((row) => row.join(',')).join('\n');
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    link.download = `select-to-search-usage-${fromDay}-to-${toDay}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const barWidth = days.length ? 100 / days.length : 0;
+
+  return (
+    <div className="card">
+      <div className="setting-row">
+        <div className="row-actions">
+          {RANGE_PRESETS.map((preset) => (
+            <button key={preset} type="button" className="text-button" onClick={() => applyPreset(preset)}>
+              {t('usageRangeDays', preset)}
+            </button>
+          ))}
+        </div>
+        <div className="row-actions">
+          <input
+            type="date"
+            className="text-input compact-input"
+            value={fromDay}
+            max={toDay}
+            onChange={(e) => e.target.value && setFromDay(e.target.value)}
+            aria-label={t('usageFromDate')}
+          />
+          <input
+            type="date"
+            className="text-input compact-input"
+            value={toDay}
+            min={fromDay}
+            onChange={(e) => e.target.value && setToDay(e.target.value)}
+            aria-label={t('usageToDate')}
+          />
+        </div>
+      </div>
+
+      <div className="setting-row metric-tiles">
+        <div className="metric-tile">
+          <span className="metric-value">{totals.impressions}</span>
+          <span className="metric-label">{t('usageImpressions')}</span>
+        </div>
+        <div className="metric-tile">
+          <span className="metric-value">{totals.actions}</span>
+          <span className="metric-label">{t('usageSearches')}</span>
+        </div>
+        <div className="metric-tile">
+          <span className="metric-value">{formatPercent(totals.actions, totals.impressions)}</span>
+          <span className="metric-label">{t('usageClickThroughRate')}</span>
+        </div>
+        <div className="metric-tile">
+          <span className="metric-value">
+            {formatPercent(totals.settingsLoads, totals.settingsLoads + totals.settingsFallbacks)}
+          </span>
+          <span className="metric-label">{t('usageSettingsLoaded')}</span>
+        </div>
+      </div>
+
+      <div className="setting-row chart-row">
+        <div className="setting-title">{t('usageChartTitle')}</div>
+        <svg
+          className="bar-chart"
+          viewBox={`0 0 100 ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={t('usageChartLabel')}
+        >
+          {days.map((day, index) => {
+            const impressionsHeight = (day.impressions / maxDaily) * CHART_HEIGHT;
+            const actionsHeight = (sumActions(day) / maxDaily) * CHART_HEIGHT;
+            return (
+              <g key={day.day}>
+                <title>{t('usageChartDay', [day.day, day.impressions, sumActions(day)])}</title>
+                <rect
+                  className="bar-impressions"
+                  x={index * barWidth + barWidth * 0.1}
+                  width={barWidth * 0.8}
+                  y={CHART_HEIGHT - impressionsHeight}
+                  height={impressionsHeight}
+                />
+                <rect
+                  className="bar-actions"
+                  x={index * barWidth + barWidth * 0.25}
+                  width={barWidth * 0.5}
+                  y={CHART_HEIGHT - actionsHeight}
+                  height={actionsHeight}
+                />
+              </g>
+            );
+          })}
+        </svg>
+        <div className="chart-legend">
+          <span className="legend-impressions">{t('usageLegendImpressions')}</span>
+          <span className="legend-actions">{t('usageSearches')}</span>
+        </div>
+      </div>
+
+      <div className="setting-row chart-row">
+        <div className="setting-title">{t('usageByProvider')}</div>
+        {providerIds.length ? (
+          providerIds.map((providerId) => (
+            <div className="provider-bar" key={providerId}>
+              <span className="provider-bar-label">{providerName(providerId)}</span>
+              <span className="provider-bar-track">
+                <span
+                  className="provider-bar-fill"
+                  style={{ width: `${(totals.actionsByProvider[providerId] / maxProviderActions) * 100}%` }}
+                />
+              </span>
+              <span className="provider-bar-value">{totals.actionsByProvider[providerId]}</span>
+            </div>
+          ))
+        ) : (
+          <p className="setting-description">{t('usageEmpty')}</p>
+        )}
+      </div>
+
+      <div className="setting-row">
+        <div className="setting-copy">
+          <p className="setting-description">{t('usagePrivacy')}</p>
+        </div>
+        <button type="button" className="text-button" onClick={exportCsv} disabled={!days.length}>
+          {t('usageExportCsv')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { CONFIG_FORMAT, CONFIG_VERSION, ConfigSnapshot, createConfigFile, prepareConfigImport } from './config';
+import { DailyMetrics } from './db';
+import { defaultSettings } from './settings';
+
+const current: ConfigSnapshot = { settings: defaultSettings, history: [], metrics: [] };
+
+const day = (overrides: Partial<DailyMetrics> = {}): DailyMetrics => ({
+  day: '2024-05-01',
+  impressions: 3,
+  actions: { google: 2 },
+  settingsLoads: 1,
+  settingsFallbacks: 0,
+  ...overrides,
+});
+
+const fileText = (contents: Record<string, unknown>) =>
+  JSON.stringify({ format: CONFIG_FORMAT, version: CONFIG_VERSION, ...contents });
+
+describe('prepareConfigImport', () => {
+  it('rejects text that is not an exported config', () => {
+    expect(() => prepareConfigImport('{', current)).toThrow('configErrorNotJson');
+    expect(() => prepareConfigImport('{"format":"other"}', current)).toThrow('configErrorWrongFormat');
+    expect(() => prepareConfigImport(fileText({ version: CONFIG_VERSION + 1 }), current)).toThrow(
+      'configErrorNewerVersion'
+    );
+    expect(() => prepareConfigImport(fileText({}), current)).toThrow('configErrorNoSettings');
+  });
+
+  it('round-trips an export without changes', () => {
+    const text = JSON.stringify(createConfigFile(current));
+    const { settings, changes, warnings } = prepareConfigImport(text, current);
+
+    expect(settings).toEqual(defaultSettings);
+    expect(changes).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('overrides only the settings fields present in the file', () => {
+    const local = { ...defaultSettings, theme: 'dark' as const, scrollThreshold: 120 };
+    const { settings, changes } = prepareConfigImport(fileText({ settings: { enabled: false } }), {
+      ...current,
+      settings: local,
+    });
+
+    expect(settings).toEqual({ ...local, enabled: false });
+    expect(changes).toHaveLength(1);
+  });
+
+  it('merges providers by id without resetting providers missing from the file', () => {
+    const local = {
+      ...defaultSettings,
+      providers: defaultSettings.providers.map((provider) =>
+        provider.id === 'claude' ? { ...provider, enabled: true } : provider
+      ),
+    };
+    const wiki = { id: 'wiki', name: 'Wiki', urlTemplate: 'https://wiki.example.com/?q={query}', icon: '', enabled: true };
+    const google = { ...defaultSettings.providers.find((provider) => provider.id === 'google')!, enabled: false };
+    const { settings } = prepareConfigImport(fileText({ settings: { providers: [google, wiki] } }), {
+      ...current,
+      settings: local,
+    });
+
+    expect(settings.providers.map((provider) => [provider.id, provider.enabled])).toEqual([
+      ['chatgpt', true],
+      ['google', false],
+      ['claude', true],
+      ['wiki', true],
+    ]);
+  });
+
+  it('warns about invalid settings values and keeps the rest', () => {
+    const { settings, warnings } = prepareConfigImport(fileText({ settings: { theme: 'neon', enabled: false } }), current);
+
+    expect(settings.theme).toBe(defaultSettings.theme);
+    expect(settings.enabled).toBe(false);
+    expect(warnings).toEqual(['configWarningInvalidValues']);
+  });
+
+  it('adds only history entries and days that are not stored yet', () => {
+    const entry = {
+      query: 'tides',
+      providerId: 'google',
+      providerName: 'Google Search',
+      sourceUrl: 'https://example.com/',
+      pageTitle: 'Example',
+      timestamp: 1714550400000,
+    };
+    const stored: ConfigSnapshot = { ...current, history: [entry], metrics: [day()] };
+    const { history, metrics } = prepareConfigImport(
+      fileText({
+        settings: {},
+        history: [entry, { ...entry, query: 'currents' }],
+        metrics: [day({ impressions: 10 }), day({ day: '2024-05-02' })],
+      }),
+      stored
+    );
+
+    expect(history.map((item) => item.query)).toEqual(['currents']);
+    expect(metrics).toEqual([day({ day: '2024-05-02' })]);
+  });
+
+  it('drops usage days with counts that are not finite and non-negative', () => {
+    const text = fileText({
+      settings: {},
+      metrics: [
+        day(),
+        day({ day: '2024-05-02', impressions: -1 }),
+        day({ day: '2024-05-03', actions: { google: -2 } }),
+        { ...day({ day: '2024-05-04' }), actions: { google: 'many' } },
+        day({ day: '2024-05-05', settingsLoads: 7 }),
+      ],
+    });
+    // JSON.parse reads out-of-range numbers as Infinity
+    const { metrics, warnings } = prepareConfigImport(text.replace('"settingsLoads":7', '"settingsLoads":1e400'), current);
+
+    expect(metrics.map((item) => item.day)).toEqual(['2024-05-01']);
+    expect(warnings).toEqual(['configWarningInvalidRecords']);
+  });
+
+  it('warns when a list section is not a list', () => {
+    const { history, warnings } = prepareConfigImport(fileText({ settings: {}, history: 'none' }), current);
+
+    expect(history).toEqual([]);
+    expect(warnings).toEqual(['configWarningNotAList']);
+  });
+});
@@ -0,0 +1,317 @@
+// Export and import of everything in SelectToSearchDB as one versioned JSON
+// file. Imports are merged into the current data rather than replacing it:
+// list entries are matched by id (providers, templates), pattern (site
+// rules), day (usage) or content (history), and only fields present in the
+// file override the current settings.
+import { DailyMetrics, HistoryEntry } from './db';
+import {
+  migrateSettings,
+  PromptTemplate,
+  ProviderConfig,
+  SELECTION_KINDS,
+  Settings,
+  SiteRule,
+  validateSettings,
+} from './settings';
+import { validateUrlTemplate } from './providers';
+import { MessageKey, t } from './i18n';
+
+export const CONFIG_FORMAT = 'select-to-search-config';
+export const CONFIG_VERSION = 1;
+
+export interface ConfigSnapshot {
+  settings: Settings;
+  history: HistoryEntry[];
+  metrics: DailyMetrics[];
+}
+
+export interface ConfigFile extends ConfigSnapshot {
+  format: typeof CONFIG_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+export interface ConfigChange {
+  section: string;
+  description: string;
+}
+
+export interface ConfigImport {
+  settings: Settings;
+  history: HistoryEntry[]; // Only entries not already stored
+  metrics: DailyMetrics[]; // Only days not already stored
+  changes: ConfigChange[];
+  warnings: string[];
+}
+
+// Settings read from a file, plus which top-level fields it actually contained
+interface ImportedSettings {
+  settings: Settings;
+  fields: Set<string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function createConfigFile(snapshot: ConfigSnapshot): ConfigFile {
+  return {
+    format: CONFIG_FORMAT,
+    version: CONFIG_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...snapshot,
+  };
+}
+
+function readSettings(value: unknown, warnings: string[]): ImportedSettings {
+  if (!isRecord(value)) {
+    throw new Error(t('configErrorNoSettings'));
+  }
+
+  const stored = migrateSettings(value);
+  const { settings, repairs } = validateSettings(stored);
+  if (repairs.length) {
+    warnings.push(t('configWarningInvalidValues', repairs.join(', ')));
+  }
+
+  // Only providers listed in the file take part in the merge; validation
+  // appends missing built-ins, which would otherwise reset local changes.
+  const listedIds = new Set(
+    (Array.isArray(stored.providers) ? stored.providers : [])
+      .map((provider) => (isRecord(provider) ? provider.id : undefined))
+      .filter((id): id is string => typeof id === 'string')
+  );
+  settings.providers = settings.providers.filter((provider) => {
+    if (!listedIds.has(provider.id)) {
+      return false;
+    }
+    const problem = validateUrlTemplate(provider.urlTemplate);
+    if (problem) {
+      warnings.push(t('configWarningSkippedProvider', [provider.name, problem]));
+      return false;
+    }
+    return true;
+  });
+
+  return { settings, fields: new Set(Object.keys(stored)) };
+}
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry =>
+  isRecord(value) &&
+  typeof value.query === 'string' &&
+  typeof value.providerId === 'string' &&
+  typeof value.providerName === 'string' &&
+  typeof value.sourceUrl === 'string' &&
+  typeof value.pageTitle === 'string' &&
+  typeof value.timestamp === 'number';
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isDailyMetrics = (value: unknown): value is DailyMetrics =>
+  isRecord(value) &&
+  typeof value.day === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value.day) &&
+  isCount(value.impressions) &&
+  isRecord(value.actions) &&
+  Object.values(value.actions).every(isCount) &&
+  isCount(value.settingsLoads) &&
+  isCount(value.settingsFallbacks);
+
+function readEntries<T>(value: unknown, isEntry: (item: unknown) => item is T, section: string, warnings: string[]): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    warnings.push(t('configWarningNotAList', section));
+    return [];
+  }
+  const entries = value.filter(isEntry);
+  if (entries.length < value.length) {
+    warnings.push(t('configWarningInvalidRecords', [value.length - entries.length, section]));
+  }
+  return entries;
+}
+
+/** Merge `incoming` into `current` by key: matching entries are replaced in place, new ones appended. */
+function mergeByKey<T>(current: T[], incoming: T[], getKey: (item: T) => string): T[] {
+  const incomingByKey = new Map(incoming.map((item) => [getKey(item), item]));
+  const merged = current.map((item) => incomingByKey.get(getKey(item)) ?? item);
+  const currentKeys = new Set(current.map(getKey));
+  return [...merged, ...incoming.filter((item) => !currentKeys.has(getKey(item)))];
+}
+
+function mergeSettings(current: Settings, imported: ImportedSettings): Settings {
+  const { settings: incoming, fields } = imported;
+  const merged: Settings = { ...current };
+
+  if (fields.has('enabled')) {
+    merged.enabled = incoming.enabled;
+  }
+  if (fields.has('affordanceMode')) {
+    merged.affordanceMode = incoming.affordanceMode;
+  }
+  if (fields.has('theme')) {
+    merged.theme = incoming.theme;
+  }
+  if (fields.has('promptLanguage')) {
+    merged.promptLanguage = incoming.promptLanguage;
+  }
+  if (fields.has('groupTabsBySource')) {
+    merged.groupTabsBySource = incoming.groupTabsBySource;
+  }
+  if (fields.has('scrollThreshold')) {
+    merged.scrollThreshold = incoming.scrollThreshold;
+  }
+  if (fields.has('selectionActions')) {
+    merged.selectionActions = incoming.selectionActions;
+  }
+  if (fields.has('trigger')) {
+    merged.trigger = incoming.trigger;
+  }
+  if (fields.has('toolbarLayout')) {
+    merged.toolbarLayout = incoming.toolbarLayout;
+  }
+  if (fields.has('uiLanguage')) {
+    merged.uiLanguage = incoming.uiLanguage;
+  }
+  if (fields.has('history')) {
+    merged.history = incoming.history;
+  }
+  if (fields.has('providers')) {
+    merged.providers = mergeByKey<ProviderConfig>(current.providers, incoming.providers, (provider) => provider.id);
+  }
+  if (fields.has('promptTemplates')) {
+    merged.promptTemplates = mergeByKey<PromptTemplate>(
+      current.promptTemplates,
+      incoming.promptTemplates,
+      (promptTemplate) => promptTemplate.id
+    );
+  }
+  if (fields.has('siteRules')) {
+    merged.siteRules = {
+      defaultAction: incoming.siteRules.defaultAction,
+      rules: mergeByKey<SiteRule>(current.siteRules.rules, incoming.siteRules.rules, (rule) => rule.pattern),
+    };
+  }
+
+  return merged;
+}
+
+const describeValue = (value: unknown) => (value === '' || value === undefined ? t('configValueEmpty') : String(value));
+
+/** Describe what applying `next` over `current` would change, for the import preview. */
+function diffSettings(current: Settings, next: Settings): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const general: [MessageKey, unknown, unknown][] = [
+    ['configFieldEnabled', current.enabled, next.enabled],
+    ['configFieldAffordance', current.affordanceMode, next.affordanceMode],
+    ['configFieldTheme', current.theme, next.theme],
+    ['configFieldPromptLanguage', current.promptLanguage, next.promptLanguage],
+    ['configFieldUiLanguage', current.uiLanguage, next.uiLanguage],
+    ['configFieldGroupTabs', current.groupTabsBySource, next.groupTabsBySource],
+    ['configFieldScrollThreshold', current.scrollThreshold, next.scrollThreshold],
+    ['configFieldToolbarLabels', current.toolbarLayout.labels, next.toolbarLayout.labels],
+    ['configFieldToolbarSize', current.toolbarLayout.size, next.toolbarLayout.size],
+    ['configFieldToolbarOrientation', current.toolbarLayout.orientation, next.toolbarLayout.orientation],
+    ['configFieldHistory', current.history.enabled, next.history.enabled],
+    ['configFieldHistoryMaxAge', current.history.maxAgeDays, next.history.maxAgeDays],
+    ['configFieldHistoryMaxEntries', current.history.maxEntries, next.history.maxEntries],
+    ['configFieldSiteDefault', current.siteRules.defaultAction, next.siteRules.defaultAction],
+    ['configFieldTriggerModifier', current.trigger.modifier, next.trigger.modifier],
+    ['configFieldMinChars', current.trigger.minChars, next.trigger.minChars],
+    ['configFieldMaxChars', current.trigger.maxChars, next.trigger.maxChars],
+    ['configFieldMinWords', current.trigger.minWords, next.trigger.minWords],
+    ['configFieldMaxWords', current.trigger.maxWords, next.trigger.maxWords],
+    ['configFieldDelay', current.trigger.delayMs, next.trigger.delayMs],
+    ['configFieldExclusions', current.trigger.exclusions.join(', '), next.trigger.exclusions.join(', ')],
+  ];
+  const describeChange = (label: string, before: unknown, after: unknown) => {
+    if (before !== after) {
+      changes.push({
+        section: t('sectionGeneral'),
+        description: t('configChangeValue', [label, describeValue(before), describeValue(after)]),
+      });
+    }
+  };
+  general.forEach(([key, before, after]) => describeChange(t(key), before, after));
+  SELECTION_KINDS.forEach((kind) => {
+    describeChange(
+      t('configFieldSelectionActions', kind),
+      current.selectionActions[kind].join(', '),
+      next.selectionActions[kind].join(', ')
+    );
+  });
+
+  const diffList = <T>(section: string, before: T[], after: T[], getKey: (item: T) => string, getLabel: (item: T) => string) => {
+    const beforeByKey = new Map(before.map((item) => [getKey(item), item]));
+    after.forEach((item) => {
+      const previous = beforeByKey.get(getKey(item));
+      if (!previous) {
+        changes.push({ section, description: t('configChangeAdd', getLabel(item)) });
+      } else if (JSON.stringify(previous) !== JSON.stringify(item)) {
+        changes.push({ section, description: t('configChangeUpdate', getLabel(item)) });
+      }
+    });
+  };
+  diffList(t('sectionProviders'), current.providers, next.providers, (provider) => provider.id, (provider) => provider.name);
+  diffList(
+    t('sectionPromptTemplates'),
+    current.promptTemplates,
+    next.promptTemplates,
+    (promptTemplate) => promptTemplate.id,
+    (promptTemplate) => promptTemplate.name
+  );
+  diffList(
+    t('sectionSites'),
+    current.siteRules.rules,
+    next.siteRules.rules,
+    (rule) => rule.pattern,
+    (rule) => `${rule.pattern} (${rule.action})`
+  );
+
+  return changes;
+}
+
+const getHistoryKey = (entry: HistoryEntry) => `${entry.timestamp}|${entry.providerId}|${entry.query}`;
+
+/**
+ * Parse an exported file and work out how it would merge into `current`.
+ * Throws with a human-readable message when the file cannot be used at all.
+ */
+export function prepareConfigImport(text: string, current: ConfigSnapshot): ConfigImport {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (_error) {
+    throw new Error(t('configErrorNotJson'));
+  }
+  if (!isRecord(file) || file.format !== CONFIG_FORMAT) {
+    throw new Error(t('configErrorWrongFormat'));
+  }
+  if (typeof file.version !== 'number' || file.version > CONFIG_VERSION) {
+    throw new Error(t('configErrorNewerVersion'));
+  }
+
+  const warnings: string[] = [];
+  const settings = mergeSettings(current.settings, readSettings(file.settings, warnings));
+
+  const storedHistory = new Set(current.history.map(getHistoryKey));
+  const history = readEntries(file.history, isHistoryEntry, t('sectionHistory'), warnings).filter(
+    (entry) => !storedHistory.has(getHistoryKey(entry))
+  );
+  // Counters for a day that already exists here are kept rather than double counted
+  const storedDays = new Set(current.metrics.map((metrics) => metrics.day));
+  const metrics = readEntries(file.metrics, isDailyMetrics, t('sectionUsage'), warnings).filter(
+    (day) => !storedDays.has(day.day)
+  );
+
+  const changes = diffSettings(current.settings, settings);
+  if (history.length) {
+    changes.push({ section: t('sectionHistory'), description: t('configChangeAddSearches', history.length) });
+  }
+  if (metrics.length) {
+    changes.push({ section: t('sectionUsage'), description: t('configChangeAddDays', metrics.length) });
+  }
+
+  return { settings, history, metrics, changes, warnings };
+}
@@ -1,28 +1,43 @@
-export interface Settings {
-  enabled: boolean;
-  providers: {
-    chatgpt: boolean;
-    google: boolean;
-    claude: boolean;
-  };
-  affordanceMode: 'quick-actions';
-  theme?: 'light' | 'dark';
+import {
+  defaultSettings,
+  getStoredVersion,
+  HistorySettings,
+  mergeLegacySettings,
+  parseSettings,
+  Settings,
+  SETTINGS_VERSION,
+} from './settings';
+
+export interface HistoryEntry {
+  id?: number;
+  query: string;
+  providerId: string;
+  providerName: string;
+  sourceUrl: string;
+  pageTitle: string;
+  timestamp: number;
+}
+
+export interface DailyMetrics {
+  day: string; // Local date, YYYY-MM-DD
+  impressions: number;
+  actions: Record<string, number>; // Keyed by provider id
+  settingsLoads: number;
+  settingsFallbacks: number;
 }
 
 const DB_NAME = 'SelectToSearchDB';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'settings';
+const HISTORY_STORE_NAME = 'history';
+const METRICS_STORE_NAME = 'metrics';
+const LEGACY_SETTINGS_KEY = 'selectToSearchSettings';
 
-export const defaultSettings: Settings = {
-  enabled: true,
-  providers: {
-    chatgpt: true,
-    google: true,
-    claude: false,
-  },
-  affordanceMode: 'quick-actions',
-  theme: 'light',
-};
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
 
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -36,30 +51,67 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      // v2: search history
+      if (!db.objectStoreNames.contains(HISTORY_STORE_NAME)) {
+        const historyStore = db.createObjectStore(HISTORY_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        historyStore.createIndex('timestamp', 'timestamp');
+      }
+      // v3: daily usage counters
+      if (!db.objectStoreNames.contains(METRICS_STORE_NAME)) {
+        db.createObjectStore(METRICS_STORE_NAME, { keyPath: 'day' });
+      }
     };
   });
 }
 
-export async function getSettings(): Promise<Settings> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get('userSettings');
+async function getStoredSettings(): Promise<unknown> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get('userSettings');
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        const settings = request.result;
-        resolve(settings ? { ...defaultSettings, ...settings } : defaultSettings);
-      };
-    });
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+interface LoadedSettings {
+  settings: Settings;
+  // False when the stored record had to be repaired or replaced, or could not be read
+  healthy: boolean;
+}
+
+async function readSettings(): Promise<LoadedSettings> {
+  try {
+    const { settings, repairs, fellBack } = parseSettings(await getStoredSettings());
+    return { settings, healthy: !fellBack && !repairs.length };
   } catch (error) {
     console.error('Failed to get settings from DB:', error);
-    return defaultSettings;
+    return { settings: defaultSettings, healthy: false };
   }
 }
 
+export async function getSettings(): Promise<Settings> {
+  return (await readSettings()).settings;
+}
+
+/**
+ * getSettings for a page that is about to use them (a content script or the
+ * options page). Each call counts once in the settings-load health metric.
+ */
+export async function loadSettings(): Promise<Settings> {
+  const { settings, healthy } = await readSettings();
+  recordMetric((metrics) => {
+    if (healthy) {
+      metrics.settingsLoads += 1;
+    } else {
+      metrics.settingsFallbacks += 1;
+    }
+  });
+  return settings;
+}
+
 export async function saveSettings(settings: Settings): Promise<void> {
   try {
     const db = await openDB();
@@ -76,3 +128,213 @@ export async function saveSettings(settings: Settings): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Upgrade the stored record to the current schema version and persist any
+ * field-level repairs. Run by the background worker on startup.
+ */
+export async function migrateStoredSettings(): Promise<void> {
+  const stored = await getStoredSettings();
+  if (stored === undefined || stored === null) {
+    return;
+  }
+
+  const { settings, repairs } = parseSettings(stored);
+  const storedVersion = typeof stored === 'object' ? getStoredVersion(stored as Record<string, unknown>) : 0;
+
+  if (repairs.length) {
+    console.warn('Repaired invalid settings fields:', repairs);
+  }
+  if (storedVersion !== SETTINGS_VERSION || repairs.length) {
+    await saveSettings(settings);
+  }
+}
+
+/**
+ * Move settings saved to localStorage by versions before IndexedDB into the
+ * stored record. localStorage belongs to extension pages and the service worker
+ * has none, so the options page runs this with its own storage.
+ */
+export async function migrateLegacySettings(storage: Storage): Promise<void> {
+  const legacyJson = storage.getItem(LEGACY_SETTINGS_KEY);
+  if (!legacyJson) {
+    return;
+  }
+
+  try {
+    const current = parseSettings(await getStoredSettings()).settings;
+    await saveSettings(mergeLegacySettings(current, JSON.parse(legacyJson)));
+    storage.removeItem(LEGACY_SETTINGS_KEY);
+  } catch (error) {
+    // Left in place so the next visit can try again
+    console.error('Failed to migrate legacy settings:', error);
+  }
+}
+
+export async function addHistoryEntry(entry: HistoryEntry): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(HISTORY_STORE_NAME).add(entry);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/** Bulk-add entries (used by configuration import); ids are reassigned by the store. */
+export async function addHistoryEntries(entries: HistoryEntry[]): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE_NAME);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    entries.forEach(({ id: _id, ...entry }) => store.add(entry));
+  });
+}
+
+export async function pruneHistory(retention: HistorySettings): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    const index = transaction.objectStore(HISTORY_STORE_NAME).index('timestamp');
+    const cutoff = retention.maxAgeDays > 0 ? Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+    let kept = 0;
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    // Newest first: keep up to maxEntries that are still within the age limit
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+
+      const entry = cursor.value as HistoryEntry;
+      if (kept >= retention.maxEntries || entry.timestamp < cutoff) {
+        cursor.delete();
+      } else {
+        kept += 1;
+      }
+      cursor.continue();
+    };
+  });
+}
+
+export async function getHistory(): Promise<HistoryEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readonly');
+    const index = transaction.objectStore(HISTORY_STORE_NAME).index('timestamp');
+    const entries: HistoryEntry[] = [];
+    // Walk the index backwards so the newest entries come first
+    const request = index.openCursor(null, 'prev');
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        entries.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(entries);
+      }
+    };
+  });
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(HISTORY_STORE_NAME).delete(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(HISTORY_STORE_NAME).clear();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Apply an update to today's counters. Failures are logged and swallowed so
+ * metrics can never break the feature being measured.
+ */
+export async function recordMetric(update: (metrics: DailyMetrics) => void): Promise<void> {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(METRICS_STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(METRICS_STORE_NAME);
+      const day = toDayKey(new Date());
+      const request = store.get(day);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      request.onsuccess = () => {
+        const metrics: DailyMetrics = request.result ?? {
+          day,
+          impressions: 0,
+          actions: {},
+          settingsLoads: 0,
+          settingsFallbacks: 0,
+        };
+        update(metrics);
+        store.put(metrics);
+      };
+    });
+  } catch (error) {
+    console.error('Failed to record metric:', error);
+  }
+}
+
+export async function getMetrics(fromDay: string, toDay: string): Promise<DailyMetrics[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(METRICS_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(METRICS_STORE_NAME).getAll(IDBKeyRange.bound(fromDay, toDay));
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+export async function getAllMetrics(): Promise<DailyMetrics[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(METRICS_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(METRICS_STORE_NAME).getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+/** Write whole days of counters, replacing any existing record for the same day. */
+export async function putMetrics(days: DailyMetrics[]): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(METRICS_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(METRICS_STORE_NAME);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    days.forEach((metrics) => store.put(metrics));
+  });
+}
@@ -0,0 +1,27 @@
+import { createHandoff, isHandoffTarget } from './handoff';
+
+describe('handoffs', () => {
+  const handoff = createHandoff('a very long selection', 'https://claude.ai/new?q=tides', 60000);
+
+  it('remember the host of the provider URL', () => {
+    expect(handoff.hostname).toBe('claude.ai');
+    expect(handoff.text).toBe('a very long selection');
+    expect(handoff.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('go to pages on the provider host', () => {
+    expect(isHandoffTarget(handoff, 'https://claude.ai/new')).toBe(true);
+    expect(isHandoffTarget(handoff, 'https://claude.ai/chat/123?x=1')).toBe(true);
+  });
+
+  it('are withheld from pages on any other host', () => {
+    expect(isHandoffTarget(handoff, 'https://accounts.google.com/signin')).toBe(false);
+    expect(isHandoffTarget(handoff, 'https://claude.ai.example.com/new')).toBe(false);
+    expect(isHandoffTarget(handoff, 'https://www.claude.ai/new')).toBe(false);
+  });
+
+  it('are withheld when the page URL is unknown or invalid', () => {
+    expect(isHandoffTarget(handoff, undefined)).toBe(false);
+    expect(isHandoffTarget(handoff, 'not a url')).toBe(false);
+  });
+});
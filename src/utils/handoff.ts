@@ -0,0 +1,26 @@
+// Text too long for a provider URL waits in the background worker until the
+// provider tab's content script asks for it. It is only handed to pages on the
+// provider's own host, so navigating away (or a redirect to another site)
+// never types the selection into an unrelated page.
+export interface PendingHandoff {
+  text: string;
+  // Host of the provider URL the tab was opened with
+  hostname: string;
+  expiresAt: number;
+}
+
+export function createHandoff(text: string, providerUrl: string, ttlMs: number): PendingHandoff {
+  return { text, hostname: new URL(providerUrl).hostname, expiresAt: Date.now() + ttlMs };
+}
+
+/** True when the page at `pageUrl` may receive the handoff. */
+export function isHandoffTarget(handoff: PendingHandoff, pageUrl: string | undefined): boolean {
+  if (!pageUrl) {
+    return false;
+  }
+  try {
+    return new URL(pageUrl).hostname === handoff.hostname;
+  } catch (_error) {
+    return false;
+  }
+}
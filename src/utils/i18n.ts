@@ -0,0 +1,86 @@
+// Localized strings, read from _locales/<language>/messages.json. By default
+// chrome.i18n picks the messages for the browser language; choosing a UI
+// language in the options page loads that language's file instead, which is
+// then looked up first. The content script keeps its own t, since it receives
+// the chosen language's messages from the background worker.
+import type englishMessages from '../../_locales/en/messages.json';
+
+export type MessageKey = keyof typeof englishMessages;
+
+// One value per $1..$9 substitution, in the order the placeholders list them
+export type Substitutions = string | number | (string | number)[];
+
+export interface LocaleMessage {
+  message: string;
+  placeholders?: Record<string, { content: string }>;
+}
+
+export type LocaleMessages = Record<string, LocaleMessage>;
+
+// Languages shipped in _locales, each named in its own language
+export const UI_LANGUAGES = {
+  en: 'English',
+  de: 'Deutsch',
+  ja: '日本語',
+  ar: 'العربية',
+  he: 'עברית',
+} as const;
+
+export type UiLanguage = keyof typeof UI_LANGUAGES;
+
+export const isUiLanguage = (value: unknown): value is UiLanguage =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(UI_LANGUAGES, value);
+
+const toList = (substitutions?: Substitutions) =>
+  (Array.isArray(substitutions) ? substitutions : substitutions === undefined ? [] : [substitutions]).map(String);
+
+/** Resolve named placeholders and $1-style substitutions the way chrome.i18n.getMessage does. */
+export function formatMessage(entry: LocaleMessage, substitutions?: Substitutions): string {
+  const values = toList(substitutions);
+  return entry.message
+    .replace(/\$([a-z0-9_@]+)\$/gi, (match, name: string) => entry.placeholders?.[name.toLowerCase()]?.content ?? match)
+    .replace(/\$(\$|[1-9])/g, (_match, token: string) => (token === '$' ? '$' : values[Number(token) - 1] ?? ''));
+}
+
+const loadedMessages = new Map<UiLanguage, LocaleMessages>();
+let overrideMessages: LocaleMessages | null = null;
+let requestedLanguage: UiLanguage | '' = '';
+
+/** Fetch the packaged messages.json for `language`. */
+export async function loadLocaleMessages(language: UiLanguage): Promise<LocaleMessages> {
+  const cached = loadedMessages.get(language);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(chrome.runtime.getURL(`_locales/${language}/messages.json`));
+  if (!response.ok) {
+    throw new Error(`No messages for ${language} (${response.status}).`);
+  }
+  const messages: LocaleMessages = await response.json();
+  loadedMessages.set(language, messages);
+  return messages;
+}
+
+/** Show strings in `language`, or in the browser language again for ''. */
+export async function setUiLanguage(language: UiLanguage | ''): Promise<void> {
+  requestedLanguage = language;
+  const messages = language ? await loadLocaleMessages(language) : null;
+  // The latest choice wins, even when an earlier one finishes loading after it
+  if (requestedLanguage === language) {
+    overrideMessages = messages;
+  }
+}
+
+/** The message for `key`, or the key itself when no locale defines it. */
+export function t(key: MessageKey, substitutions?: Substitutions): string {
+  const entry = overrideMessages?.[key];
+  if (entry) {
+    return formatMessage(entry, substitutions);
+  }
+  return chrome.i18n?.getMessage(key, toList(substitutions)) || key;
+}
+
+/** BCP 47 tag of the language strings are shown in, for lang attributes, dates and numbers. */
+export const getUiLocale = () => t('languageCode');
+
+export const getTextDirection = (): 'ltr' | 'rtl' => (t('textDirection') === 'rtl' ? 'rtl' : 'ltr');
@@ -0,0 +1,18 @@
+/**
+ * Derive a readable, stable id from a display name, suffixed when it would
+ * collide with an existing entry.
+ */
+export function createSlugId(name: string, existing: Array<{ id: string }>, fallback = 'item'): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || fallback;
+
+  let id = base;
+  let suffix = 2;
+  while (existing.some((entry) => entry.id === id)) {
+    id = `${base}-${suffix}`;
+    suffix += 1;
+  }
+  return id;
+}
@@ -0,0 +1,121 @@
+// Routes protocol requests to typed handlers through a middleware chain
+import {
+  MessageResponse,
+  parseRequest,
+  ProtocolError,
+  Request,
+  REQUEST_SCOPES,
+  RequestType,
+  ResponseMap,
+} from './protocol';
+
+export interface MessageContext {
+  message: unknown;
+  sender: chrome.runtime.MessageSender;
+  // Set by the validation middleware
+  request?: Request;
+}
+
+export type Middleware = (context: MessageContext, next: () => Promise<unknown>) => Promise<unknown>;
+
+export type MessageHandler<T extends RequestType> = (
+  request: Request<T>,
+  sender: chrome.runtime.MessageSender
+) => Promise<ResponseMap[T]> | ResponseMap[T];
+
+type HandlerMap = { [K in RequestType]?: MessageHandler<K> };
+
+export class MessageRouter {
+  private readonly middleware: Middleware[] = [];
+  private readonly handlers: HandlerMap = {};
+
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  on<T extends RequestType>(type: T, handler: MessageHandler<T>): this {
+    (this.handlers as Record<T, MessageHandler<T>>)[type] = handler;
+    return this;
+  }
+
+  /** Listener for chrome.runtime.onMessage; every request gets exactly one response. */
+  readonly listener = (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: MessageResponse<unknown>) => void
+  ): boolean => {
+    this.dispatch(message, sender).then(sendResponse);
+    // Keep the channel open for the async response
+    return true;
+  };
+
+  async dispatch(message: unknown, sender: chrome.runtime.MessageSender): Promise<MessageResponse<unknown>> {
+    const context: MessageContext = { message, sender };
+    const run = (index: number): Promise<unknown> =>
+      index < this.middleware.length
+        ? this.middleware[index](context, () => run(index + 1))
+        : this.handle(context);
+
+    try {
+      return { ok: true, data: (await run(0)) ?? null };
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        return { ok: false, error: { code: error.code, message: error.message } };
+      }
+      return { ok: false, error: { code: 'INTERNAL', message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  private async handle({ request, sender }: MessageContext): Promise<unknown> {
+    if (!request) {
+      throw new ProtocolError('INVALID_REQUEST', 'Request was not validated.');
+    }
+    const handler = this.handlers[request.type] as MessageHandler<RequestType> | undefined;
+    if (!handler) {
+      throw new ProtocolError('UNKNOWN_TYPE', `No handler for ${request.type}.`);
+    }
+    return handler(request, sender);
+  }
+}
+
+// --- Middleware ---
+
+const getMessageType = (message: unknown) =>
+  typeof message === 'object' && message !== null ? String((message as { type?: unknown }).type) : typeof message;
+
+/** Log failed requests with their error code and how long they took. */
+export const logRequests: Middleware = async (context, next) => {
+  const startedAt = performance.now();
+  try {
+    return await next();
+  } catch (error) {
+    const code = error instanceof ProtocolError ? error.code : 'INTERNAL';
+    const duration = Math.round(performance.now() - startedAt);
+    console.error(`Message ${getMessageType(context.message)} failed (${code}, ${duration}ms):`, error);
+    throw error;
+  }
+};
+
+/** Parse the raw message against the protocol schema. */
+export const validateRequests: Middleware = async (context, next) => {
+  context.request = parseRequest(context.message);
+  return next();
+};
+
+/** True for pages served from this extension (options page), as opposed to content scripts. */
+export function isExtensionPage(sender: chrome.runtime.MessageSender): boolean {
+  return Boolean(sender.url?.startsWith(chrome.runtime.getURL('')));
+}
+
+/** Reject requests from other extensions, and page-only requests from content scripts. */
+export const verifySenders: Middleware = async (context, next) => {
+  const { request, sender } = context;
+  if (sender.id !== chrome.runtime.id) {
+    throw new ProtocolError('FORBIDDEN', 'Requests must come from this extension.');
+  }
+  if (request && REQUEST_SCOPES[request.type] === 'extension-page' && !isExtensionPage(sender)) {
+    throw new ProtocolError('FORBIDDEN', `${request.type} may only be sent from extension pages.`);
+  }
+  return next();
+};
@@ -0,0 +1,130 @@
+import { parseRequest, parseSettingsUpdate, PROTOCOL_VERSION, ProtocolError } from './protocol';
+import { defaultSettings } from './settings';
+
+const request = (type: string, payload: Record<string, unknown> = {}) => ({ type, version: PROTOCOL_VERSION, ...payload });
+
+const errorCode = (message: unknown) => {
+  try {
+    parseRequest(message);
+  } catch (error) {
+    return error instanceof ProtocolError ? error.code : undefined;
+  }
+  return undefined;
+};
+
+const history = {
+  query: 'tides',
+  providerId: 'google',
+  providerName: 'Google Search',
+  sourceUrl: 'https://example.com/',
+  pageTitle: 'Example',
+};
+
+describe('parseRequest', () => {
+  it('rejects messages outside the protocol', () => {
+    expect(errorCode('OPEN_TAB')).toBe('INVALID_REQUEST');
+    expect(errorCode({ version: PROTOCOL_VERSION })).toBe('INVALID_REQUEST');
+    expect(errorCode(request('LAUNCH'))).toBe('UNKNOWN_TYPE');
+    expect(errorCode({ type: 'GET_SETTINGS', version: PROTOCOL_VERSION + 1 })).toBe('UNSUPPORTED_VERSION');
+    expect(errorCode({ type: 'GET_SETTINGS' })).toBe('UNSUPPORTED_VERSION');
+  });
+
+  it('keeps only the known OPEN_TAB fields', () => {
+    const parsed = parseRequest(request('OPEN_TAB', { url: 'https://example.com/', history, extra: true }));
+
+    expect(parsed).toEqual({
+      type: 'OPEN_TAB',
+      version: PROTOCOL_VERSION,
+      url: 'https://example.com/',
+      providerId: undefined,
+      background: undefined,
+      history,
+      handoffText: undefined,
+    });
+  });
+
+  it('rejects OPEN_TAB payloads with fields of the wrong type', () => {
+    expect(errorCode(request('OPEN_TAB'))).toBe('INVALID_REQUEST');
+    expect(errorCode(request('OPEN_TAB', { url: 'https://example.com/', background: 'yes' }))).toBe('INVALID_REQUEST');
+    expect(errorCode(request('OPEN_TAB', { url: 'https://example.com/', history: { query: 'tides' } }))).toBe(
+      'INVALID_REQUEST'
+    );
+  });
+
+  it('validates settings updates against the settings schema', () => {
+    const parsed = parseRequest(request('SETTINGS_UPDATED', { settings: { ...defaultSettings, theme: 'neon' } }));
+
+    expect(parsed).toEqual({ type: 'SETTINGS_UPDATED', version: PROTOCOL_VERSION, settings: defaultSettings });
+    expect(errorCode(request('SETTINGS_UPDATED', { settings: 'dark' }))).toBe('INVALID_REQUEST');
+  });
+
+  it('reads metrics with and without a provider', () => {
+    expect(parseRequest(request('RECORD_METRIC', { metric: 'impression' }))).toEqual(
+      request('RECORD_METRIC', { metric: 'impression' })
+    );
+    expect(parseRequest(request('RECORD_METRIC', { metric: 'action', providerId: 'google' }))).toEqual(
+      request('RECORD_METRIC', { metric: 'action', providerId: 'google' })
+    );
+    expect(errorCode(request('RECORD_METRIC', { metric: 'click' }))).toBe('INVALID_REQUEST');
+    expect(errorCode(request('RECORD_METRIC', { metric: 'action', providerId: 7 }))).toBe('INVALID_REQUEST');
+  });
+
+  it('requires a query and page details for ASK_ALL', () => {
+    const valid = { query: 'tides', sourceUrl: 'https://example.com/', pageTitle: 'Example' };
+
+    expect(parseRequest(request('ASK_ALL', { ...valid, providerQueries: { claude: 'longer tides' } }))).toMatchObject({
+      query: 'tides',
+      providerQueries: { claude: 'longer tides' },
+    });
+    expect(errorCode(request('ASK_ALL', { ...valid, query: '   ' }))).toBe('INVALID_REQUEST');
+    expect(errorCode(request('ASK_ALL', { ...valid, providerQueries: { claude: 1 } }))).toBe('INVALID_REQUEST');
+    expect(errorCode(request('ASK_ALL', { query: 'tides' }))).toBe('INVALID_REQUEST');
+  });
+
+  it('trims the hostname for DISABLE_SITE', () => {
+    expect(parseRequest(request('DISABLE_SITE', { hostname: ' example.com ' }))).toEqual(
+      request('DISABLE_SITE', { hostname: 'example.com' })
+    );
+    expect(errorCode(request('DISABLE_SITE', { hostname: ' ' }))).toBe('INVALID_REQUEST');
+  });
+
+  it('accepts only shipped languages for GET_MESSAGES', () => {
+    expect(parseRequest(request('GET_MESSAGES', { language: 'de' }))).toEqual(request('GET_MESSAGES', { language: 'de' }));
+    expect(errorCode(request('GET_MESSAGES', { language: 'xx' }))).toBe('INVALID_REQUEST');
+  });
+
+  it('requires the text and full page context for FRAME_SELECTION', () => {
+    const context = { title: 'Example', url: 'https://example.com/', heading: '', block: 'Tides rise twice a day.' };
+
+    expect(parseRequest(request('FRAME_SELECTION', { id: 'a1', text: 'tides', context, extra: 1 }))).toEqual(
+      request('FRAME_SELECTION', { id: 'a1', text: 'tides', context })
+    );
+    expect(errorCode(request('FRAME_SELECTION', { id: 'a1', text: 'tides' }))).toBe('INVALID_REQUEST');
+    expect(errorCode(request('FRAME_SELECTION', { id: 'a1', text: 'tides', context: { ...context, block: 3 } }))).toBe(
+      'INVALID_REQUEST'
+    );
+  });
+
+  it('requires a delivery flag for HANDOFF_RESULT', () => {
+    expect(parseRequest(request('HANDOFF_RESULT', { delivered: false }))).toEqual(
+      request('HANDOFF_RESULT', { delivered: false })
+    );
+    expect(errorCode(request('HANDOFF_RESULT', { delivered: 'yes' }))).toBe('INVALID_REQUEST');
+  });
+});
+
+describe('parseSettingsUpdate', () => {
+  it('returns validated settings from a broadcast', () => {
+    expect(parseSettingsUpdate({ type: 'SETTINGS_UPDATED', settings: { ...defaultSettings, enabled: false } })).toEqual({
+      ...defaultSettings,
+      enabled: false,
+    });
+    expect(parseSettingsUpdate({ type: 'SETTINGS_UPDATED', settings: { theme: 42 } })).toEqual(defaultSettings);
+  });
+
+  it('ignores other and malformed messages', () => {
+    expect(parseSettingsUpdate({ type: 'GET_SELECTION' })).toBeUndefined();
+    expect(parseSettingsUpdate({ type: 'SETTINGS_UPDATED', settings: null })).toBeUndefined();
+    expect(parseSettingsUpdate('SETTINGS_UPDATED')).toBeUndefined();
+  });
+});
@@ -0,0 +1,259 @@
+// Message protocol between the content script, the options page and the
+// background worker. Requests carry the protocol version and are validated
+// by the background router before a handler sees them; every request is
+// answered with a MessageResponse envelope.
+import type { HistoryEntry } from './db';
+import { isUiLanguage, LocaleMessages, UiLanguage } from './i18n';
+import { parseSettings, Settings } from './settings';
+
+export const PROTOCOL_VERSION = 1;
+
+export type HistoryContext = Omit<HistoryEntry, 'id' | 'timestamp'>;
+
+// Where a selection came from, sent along to AI providers that opt in
+export interface PageContext {
+  title: string;
+  url: string;
+  heading: string;
+  block: string;
+}
+
+// Text selected in a child frame, passed to the top frame through the background
+// worker; postMessage would expose it to every page the frame is embedded in
+export interface FrameSelectionDetails {
+  // Matches the id of the selection's position, which travels up the frames with postMessage
+  id: string;
+  text: string;
+  context: PageContext;
+}
+
+// --- Requests handled by the background worker ---
+
+export interface RequestMap {
+  OPEN_TAB: {
+    url: string;
+    // Selects the provider's tab behavior; without it the tab opens next to the sender
+    providerId?: string;
+    // Ctrl/Cmd- or middle-click: open without switching to the new tab
+    background?: boolean;
+    // Present for searches that should be recorded in history
+    history?: HistoryContext;
+    // Too long for the URL: delivered to the opened tab once it has loaded
+    handoffText?: string;
+  };
+  GET_SETTINGS: {};
+  SETTINGS_UPDATED: { settings: Settings };
+  RECORD_METRIC: { metric: 'impression' | 'action'; providerId?: string };
+  // Open every enabled provider; the background builds the URLs
+  ASK_ALL: {
+    query: string;
+    // Replaces the query for specific providers (page context, shortened to fit), by provider id
+    providerQueries?: Record<string, string>;
+    background?: boolean;
+    sourceUrl: string;
+    pageTitle: string;
+  };
+  DISABLE_SITE: { hostname: string };
+  // Messages for the UI language chosen in the options page; content scripts cannot fetch them
+  GET_MESSAGES: { language: UiLanguage };
+  // Asked by a tab's top frame once its content script is ready: text handed off to that tab, if any
+  GET_HANDOFF: {};
+  // Reported after GET_HANDOFF; undelivered text stays pending for the tab's next page load
+  HANDOFF_RESULT: { delivered: boolean };
+  // Sent by child frames; relayed to the top frame of the same tab
+  FRAME_SELECTION: FrameSelectionDetails;
+}
+
+export interface ResponseMap {
+  OPEN_TAB: null;
+  GET_SETTINGS: Settings;
+  SETTINGS_UPDATED: null;
+  RECORD_METRIC: null;
+  ASK_ALL: null;
+  DISABLE_SITE: null;
+  GET_MESSAGES: LocaleMessages;
+  GET_HANDOFF: string | null;
+  HANDOFF_RESULT: null;
+  FRAME_SELECTION: null;
+}
+
+export type RequestType = keyof RequestMap;
+
+export type Request<T extends RequestType = RequestType> = {
+  [K in T]: { type: K; version: typeof PROTOCOL_VERSION } & RequestMap[K];
+}[T];
+
+// Who may send a request: any part of this extension, or only its own pages
+// (options page), which excludes content scripts running inside web pages.
+export type SenderScope = 'extension' | 'extension-page';
+
+export const REQUEST_SCOPES: Record<RequestType, SenderScope> = {
+  OPEN_TAB: 'extension',
+  GET_SETTINGS: 'extension',
+  SETTINGS_UPDATED: 'extension-page',
+  RECORD_METRIC: 'extension',
+  ASK_ALL: 'extension',
+  DISABLE_SITE: 'extension',
+  GET_MESSAGES: 'extension',
+  GET_HANDOFF: 'extension',
+  HANDOFF_RESULT: 'extension',
+  FRAME_SELECTION: 'extension',
+};
+
+// --- Responses ---
+
+export type ErrorCode =
+  | 'INVALID_REQUEST' // Malformed message or payload
+  | 'UNSUPPORTED_VERSION' // Sent by a different protocol version, e.g. a stale content script
+  | 'UNKNOWN_TYPE'
+  | 'FORBIDDEN' // Sender is not allowed to make this request
+  | 'INVALID_URL'
+  | 'INTERNAL';
+
+export type MessageResponse<T> = { ok: true; data: T } | { ok: false; error: { code: ErrorCode; message: string } };
+
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// --- Messages sent by the background worker to tabs and extension pages ---
+
+export interface TabMessageMap {
+  SETTINGS_UPDATED: { settings: Settings };
+  // Sent to every frame; only the innermost focused frame answers
+  GET_SELECTION: {};
+  // Sent to the top frame only
+  FRAME_SELECTION: FrameSelectionDetails;
+}
+
+export type TabMessage<T extends keyof TabMessageMap = keyof TabMessageMap> = {
+  [K in T]: { type: K } & TabMessageMap[K];
+}[T];
+
+export interface SelectionResponse {
+  text: string;
+}
+
+// --- Validation ---
+
+type PayloadReader<T extends RequestType> = (message: Record<string, unknown>) => RequestMap[T] | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isHistoryContext = (value: unknown): value is HistoryContext =>
+  isRecord(value) &&
+  isString(value.query) &&
+  isString(value.providerId) &&
+  isString(value.providerName) &&
+  isString(value.sourceUrl) &&
+  isString(value.pageTitle);
+
+const isPageContext = (value: unknown): value is PageContext =>
+  isRecord(value) && isString(value.title) && isString(value.url) && isString(value.heading) && isString(value.block);
+
+const payloadReaders: { [K in RequestType]: PayloadReader<K> } = {
+  OPEN_TAB: ({ url, providerId, background, history, handoffText }) => {
+    if (
+      !isString(url) ||
+      (handoffText !== undefined && !isString(handoffText)) ||
+      (providerId !== undefined && !isString(providerId)) ||
+      (background !== undefined && typeof background !== 'boolean') ||
+      (history !== undefined && !isHistoryContext(history))
+    ) {
+      return undefined;
+    }
+    return { url, providerId, background, history, handoffText };
+  },
+  GET_SETTINGS: () => ({}),
+  // Settings go through the full schema, so only well-formed values are rebroadcast
+  SETTINGS_UPDATED: ({ settings }) => (isRecord(settings) ? { settings: parseSettings(settings).settings } : undefined),
+  RECORD_METRIC: ({ metric, providerId }) => {
+    if ((metric !== 'impression' && metric !== 'action') || (providerId !== undefined && !isString(providerId))) {
+      return undefined;
+    }
+    return providerId === undefined ? { metric } : { metric, providerId };
+  },
+  ASK_ALL: ({ query, providerQueries, background, sourceUrl, pageTitle }) => {
+    if (
+      !isString(query) ||
+      !query.trim() ||
+      (providerQueries !== undefined && !(isRecord(providerQueries) && Object.values(providerQueries).every(isString))) ||
+      (background !== undefined && typeof background !== 'boolean') ||
+      !isString(sourceUrl) ||
+      !isString(pageTitle)
+    ) {
+      return undefined;
+    }
+    return {
+      query,
+      providerQueries: providerQueries as Record<string, string> | undefined,
+      background,
+      sourceUrl,
+      pageTitle,
+    };
+  },
+  DISABLE_SITE: ({ hostname }) => (isString(hostname) && hostname.trim() ? { hostname: hostname.trim() } : undefined),
+  GET_MESSAGES: ({ language }) => (isUiLanguage(language) ? { language } : undefined),
+  GET_HANDOFF: () => ({}),
+  HANDOFF_RESULT: ({ delivered }) => (typeof delivered === 'boolean' ? { delivered } : undefined),
+  FRAME_SELECTION: ({ id, text, context }) =>
+    isString(id) && isString(text) && isPageContext(context) ? { id, text, context } : undefined,
+};
+
+const isRequestType = (type: unknown): type is RequestType =>
+  isString(type) && Object.prototype.hasOwnProperty.call(payloadReaders, type);
+
+/** Check an incoming message against the protocol, returning only the known fields. */
+export function parseRequest(message: unknown): Request {
+  if (!isRecord(message) || !isString(message.type)) {
+    throw new ProtocolError('INVALID_REQUEST', 'Messages must be objects with a type.');
+  }
+  if (!isRequestType(message.type)) {
+    throw new ProtocolError('UNKNOWN_TYPE', `Unknown message type: ${message.type}`);
+  }
+  if (message.version !== PROTOCOL_VERSION) {
+    throw new ProtocolError('UNSUPPORTED_VERSION', `Expected protocol version ${PROTOCOL_VERSION}.`);
+  }
+
+  const payload = (payloadReaders[message.type] as PayloadReader<RequestType>)(message);
+  if (!payload) {
+    throw new ProtocolError('INVALID_REQUEST', `Invalid ${message.type} payload.`);
+  }
+  return { type: message.type, version: PROTOCOL_VERSION, ...payload } as Request;
+}
+
+/** The settings carried by a SETTINGS_UPDATED broadcast, or undefined for any other or malformed message. */
+export function parseSettingsUpdate(message: unknown): Settings | undefined {
+  if (!isRecord(message) || message.type !== 'SETTINGS_UPDATED') {
+    return undefined;
+  }
+  return payloadReaders.SETTINGS_UPDATED(message)?.settings;
+}
+
+// --- Client ---
+
+/** Send a request to the background worker and unwrap its response envelope. */
+export async function sendRequest<T extends RequestType>(type: T, payload: RequestMap[T]): Promise<ResponseMap[T]> {
+  const response: MessageResponse<ResponseMap[T]> | undefined = await chrome.runtime.sendMessage({
+    type,
+    version: PROTOCOL_VERSION,
+    ...payload,
+  });
+  if (!response) {
+    throw new ProtocolError('INTERNAL', `No response to ${type}.`);
+  }
+  if (!response.ok) {
+    throw new ProtocolError(response.error.code, response.error.message);
+  }
+  return response.data;
+}
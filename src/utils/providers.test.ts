@@ -0,0 +1,71 @@
+import { applyProviderOptions, buildProviderUrl, findInvalidOption, validateUrlTemplate } from './providers';
+
+describe('buildProviderUrl', () => {
+  it('encodes the query into every placeholder', () => {
+    expect(buildProviderUrl('https://chatgpt.com/?q={query}&input={query}', 'a&b c')).toBe(
+      'https://chatgpt.com/?q=a%26b%20c&input=a%26b%20c'
+    );
+  });
+});
+
+describe('validateUrlTemplate', () => {
+  it('accepts https templates with a placeholder', () => {
+    expect(validateUrlTemplate(' https://example.com/search?q={query} ')).toBeNull();
+  });
+
+  it('explains what is wrong with unusable templates', () => {
+    expect(validateUrlTemplate('  ')).toBe('errorUrlTemplateEmpty');
+    expect(validateUrlTemplate('https://example.com/')).toBe('errorUrlTemplatePlaceholder');
+    expect(validateUrlTemplate('http://example.com/?q={query}')).toBe('errorUrlTemplateHttps');
+    expect(validateUrlTemplate('example {query}')).toBe('errorUrlTemplateInvalid');
+  });
+});
+
+describe('findInvalidOption', () => {
+  it('returns the first value that does not fit its pattern', () => {
+    expect(findInvalidOption('google', { language: 'en-GB', region: 'usa' })?.key).toBe('region');
+    expect(findInvalidOption('claude', { project: '../settings' })?.key).toBe('project');
+  });
+
+  it('ignores empty values, flags and providers without options', () => {
+    expect(findInvalidOption('google', { language: '  ', verbatim: true })).toBeNull();
+    expect(findInvalidOption('chatgpt', { model: 'gpt-4o', temporaryChat: true })).toBeNull();
+    expect(findInvalidOption('wiki', { anything: '!!' })).toBeNull();
+  });
+});
+
+describe('applyProviderOptions', () => {
+  const googleUrl = buildProviderUrl('https://www.google.com/search?q={query}', 'tides & currents');
+
+  it('leaves the URL alone without options', () => {
+    expect(applyProviderOptions(googleUrl, { id: 'google' })).toBe(googleUrl);
+    expect(applyProviderOptions(googleUrl, { id: 'wiki', queryOptions: { language: 'de' } })).toBe(googleUrl);
+  });
+
+  it('adds the parameters the options own and keeps the query encoding', () => {
+    const url = applyProviderOptions(googleUrl, {
+      id: 'google',
+      queryOptions: { language: ' de ', region: '', timeRange: 'w', verbatim: true },
+    });
+
+    expect(url).toBe('https://www.google.com/search?q=tides%20%26%20currents&hl=de&tbs=qdr%3Aw%2Cli%3A1');
+  });
+
+  it('replaces parameters already in the template', () => {
+    const url = applyProviderOptions('https://chatgpt.com/?q=tides&model=old', {
+      id: 'chatgpt',
+      queryOptions: { model: 'gpt-4o', temporaryChat: false },
+    });
+
+    expect(url).toBe('https://chatgpt.com/?q=tides&model=gpt-4o');
+  });
+
+  it('moves Claude searches into the chosen project', () => {
+    const url = applyProviderOptions('https://claude.ai/new?q=tides', {
+      id: 'claude',
+      queryOptions: { project: 'research-notes' },
+    });
+
+    expect(url).toBe('https://claude.ai/project/research-notes?q=tides');
+  });
+});
@@ -0,0 +1,186 @@
+import type { ProviderConfig, ProviderQueryOptions } from './settings';
+import { MessageKey, t } from './i18n';
+
+export const QUERY_PLACEHOLDER = '{query}';
+
+export function buildProviderUrl(urlTemplate: string, query: string): string {
+  return urlTemplate.split(QUERY_PLACEHOLDER).join(encodeURIComponent(query));
+}
+
+/**
+ * Returns a human-readable problem with the template, or null when it can be
+ * used as a provider URL.
+ */
+export function validateUrlTemplate(urlTemplate: string): string | null {
+  const template = urlTemplate.trim();
+  if (!template) {
+    return t('errorUrlTemplateEmpty');
+  }
+
+  if (!template.includes(QUERY_PLACEHOLDER)) {
+    return t('errorUrlTemplatePlaceholder', QUERY_PLACEHOLDER);
+  }
+
+  try {
+    const parsedUrl = new URL(buildProviderUrl(template, 'test'));
+    if (parsedUrl.protocol !== 'https:') {
+      return t('errorUrlTemplateHttps');
+    }
+  } catch (_error) {
+    return t('errorUrlTemplateInvalid');
+  }
+
+  return null;
+}
+
+// --- Advanced URL options for built-in providers ---
+
+// Labels and hints are message keys; placeholders are sample values and stay as they are
+export interface ProviderOption {
+  key: string;
+  label: MessageKey;
+  hint?: MessageKey;
+  placeholder?: string;
+  // A select when given; a checkbox for flags; a text input otherwise
+  choices?: { value: string; label: MessageKey }[];
+  flag?: boolean;
+  // Text values must match this to be saved
+  pattern?: RegExp;
+}
+
+interface ProviderOptionsDefinition {
+  options: ProviderOption[];
+  // Query parameters to set (empty values are left out), and optionally a new path
+  build: (values: ProviderQueryOptions) => { params: Record<string, string>; pathname?: string };
+}
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const REGION_CODE = /^[a-z]{2}$/i;
+
+const readText = (values: ProviderQueryOptions, key: string) => {
+  const value = values[key];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+export const PROVIDER_OPTIONS: Record<string, ProviderOptionsDefinition> = {
+  google: {
+    options: [
+      {
+        key: 'language',
+        label: 'optionGoogleLanguage',
+        placeholder: 'en',
+        hint: 'optionGoogleLanguageHint',
+        pattern: LANGUAGE_CODE,
+      },
+      {
+        key: 'region',
+        label: 'optionGoogleRegion',
+        placeholder: 'us',
+        hint: 'optionGoogleRegionHint',
+        pattern: REGION_CODE,
+      },
+      {
+        key: 'timeRange',
+        label: 'optionGoogleTimeRange',
+        choices: [
+          { value: '', label: 'optionTimeAny' },
+          { value: 'h', label: 'optionTimeHour' },
+          { value: 'd', label: 'optionTimeDay' },
+          { value: 'w', label: 'optionTimeWeek' },
+          { value: 'm', label: 'optionTimeMonth' },
+          { value: 'y', label: 'optionTimeYear' },
+        ],
+      },
+      { key: 'verbatim', label: 'optionGoogleVerbatim', flag: true },
+    ],
+    build: (values) => {
+      const timeRange = readText(values, 'timeRange');
+      // Time range and verbatim share the tbs parameter
+      const tbs = [timeRange && `qdr:${timeRange}`, values.verbatim === true && 'li:1'].filter(Boolean).join(',');
+      return { params: { hl: readText(values, 'language'), gl: readText(values, 'region'), tbs } };
+    },
+  },
+  chatgpt: {
+    options: [
+      {
+        key: 'model',
+        label: 'optionChatgptModel',
+        placeholder: 'gpt-4o',
+        hint: 'optionChatgptModelHint',
+        pattern: /^[\w.-]+$/,
+      },
+      { key: 'temporaryChat', label: 'optionChatgptTemporaryChat', flag: true },
+    ],
+    build: (values) => ({
+      params: {
+        model: readText(values, 'model'),
+        'temporary-chat': values.temporaryChat === true ? 'true' : '',
+      },
+    }),
+  },
+  claude: {
+    options: [
+      {
+        key: 'project',
+        label: 'optionClaudeProject',
+        hint: 'optionClaudeProjectHint',
+        pattern: /^[\w-]+$/,
+      },
+    ],
+    build: (values) => {
+      const project = readText(values, 'project');
+      return { params: {}, pathname: project ? `/project/${encodeURIComponent(project)}` : undefined };
+    },
+  },
+};
+
+/** The first option value that doesn't fit its pattern, or null when all can be saved. */
+export function findInvalidOption(providerId: string, values: ProviderQueryOptions): ProviderOption | null {
+  const options = PROVIDER_OPTIONS[providerId]?.options ?? [];
+  return (
+    options.find((option) => {
+      const value = readText(values, option.key);
+      return Boolean(option.pattern && value && !option.pattern.test(value));
+    }) ?? null
+  );
+}
+
+/**
+ * Add a provider's advanced options to a search URL. Only the path and the
+ * query parameters the options own are touched, so the host stays the one
+ * validated against the provider registry and the query keeps its encoding.
+ */
+export function applyProviderOptions(url: string, provider: Pick<ProviderConfig, 'id' | 'queryOptions'>): string {
+  const definition = PROVIDER_OPTIONS[provider.id];
+  if (!definition || !provider.queryOptions) {
+    return url;
+  }
+
+  const parsedUrl = new URL(url);
+  const { params, pathname } = definition.build(provider.queryOptions);
+  const entries = Object.entries(params).filter(([, value]) => value);
+  if (pathname) {
+    parsedUrl.pathname = pathname;
+  }
+  const names = entries.map(([name]) => name);
+  const kept = parsedUrl.search
+    .slice(1)
+    .split('&')
+    .filter((part) => part && !names.includes(part.split('=')[0]));
+  parsedUrl.search = [...kept, new URLSearchParams(entries).toString()].filter(Boolean).join('&');
+  return parsedUrl.toString();
+}
+
+/** Resolves a provider icon to something usable as an <img> src on the options page. */
+export function resolveIconSrc(icon: string): string | null {
+  if (!icon) {
+    return null;
+  }
+  if (icon.startsWith('icons/')) {
+    return `/${icon}`;
+  }
+  if (/^(https:|data:image\/)/.test(icon)) {
+    return icon;
+  }
+  return null;
+}
@@ -0,0 +1,95 @@
+import { classifySelection, isForeignText } from './selectionKinds';
+
+const classify = (text: string) => classifySelection(text, 'en-US', 'en');
+
+describe('classifySelection', () => {
+  it.each([
+    ['2024-05-01'],
+    ['05/01/2024'],
+    ['12.05.2024'],
+  ])('does not take the date %s for a phone number', (text) => {
+    expect(classify(text)).toBeNull();
+  });
+
+  it.each([
+    ['$19.99'],
+    ['19.99'],
+    ['1.000,00 €'],
+    ['$1,299.00'],
+  ])('leaves the price %s unclassified', (text) => {
+    expect(classify(text)).toBeNull();
+  });
+
+  it.each([
+    ['1.2.3'],
+    ['v2.10.0'],
+    ['10.0.19045.3803'],
+  ])('leaves the version number %s unclassified', (text) => {
+    expect(classify(text)).toBeNull();
+  });
+
+  it.each([
+    ['+1 555 123 4567'],
+    ['+49 (0)30 1234567'],
+    ['tel:+15551234567'],
+  ])('recognizes the dial-prefixed phone number %s', (text) => {
+    expect(classify(text)).toBe('phone');
+  });
+
+  it.each([
+    ['(555) 123-4567'],
+    ['555-123-4567'],
+    ['030 1234567'],
+    [' 555 1234 '],
+  ])('recognizes the grouped phone number %s', (text) => {
+    expect(classify(text)).toBe('phone');
+  });
+
+  it.each([
+    ['3.14159265'],
+    ['1.000.000'],
+    ['123456789'],
+    ['12 34'],
+  ])('does not take the plain number %s for a phone number', (text) => {
+    expect(classify(text)).toBeNull();
+  });
+
+  it.each([
+    ['ada@example.com'],
+    ['mailto:ada.lovelace+notes@mail.example.org'],
+  ])('recognizes the email address %s', (text) => {
+    expect(classify(text)).toBe('email');
+  });
+
+  it.each([
+    ['https://example.com/docs?q=tides#top'],
+    ['http://localhost:8080/'],
+    ['www.example.com'],
+  ])('recognizes the URL %s', (text) => {
+    expect(classify(text)).toBe('url');
+  });
+
+  it.each([
+    ['2 * (3 + 4)', 'math'],
+    ['TypeError: Cannot read properties of undefined', 'error'],
+    ['const total = items.reduce(sum, 0);', 'code'],
+    ['221B Baker Street, London NW1 6XE', 'address'],
+    ['The tide comes in twice a day.', null],
+  ])('classifies %s as %s', (text, kind) => {
+    expect(classify(text)).toBe(kind);
+  });
+});
+
+describe('isForeignText', () => {
+  it('flags text in another script than the reader language', () => {
+    expect(isForeignText('Привет, мир', 'en-US', '')).toBe(true);
+    expect(isForeignText('Привет, мир', 'ru', '')).toBe(false);
+    expect(isForeignText('漢字', 'ja-JP', '')).toBe(false);
+  });
+
+  it('flags text from pages declared in another language', () => {
+    expect(isForeignText('Guten Morgen', 'en-US', 'de')).toBe(true);
+    expect(isForeignText('Good morning', 'en-GB', 'en-US')).toBe(false);
+    expect(isForeignText('12 34', 'en-US', 'de')).toBe(false);
+  });
+});
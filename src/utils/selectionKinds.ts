@@ -0,0 +1,143 @@
+// Classifies selected text, e.g. as a phone number or a stack trace, with
+// cheap pattern checks tried in order; the first match decides which
+// contextual actions the toolbar offers.
+import type { SelectionKind } from './settings';
+
+const URL_PATTERN = /^(?:https?:\/\/|www\.)[^\s<>"]+$/i;
+const EMAIL_PATTERN = /^(?:mailto:)?[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}$/i;
+// A dialable prefix, or digit groups separated by spaces, dashes or parentheses
+const PHONE_PATTERN = /^(?:(?:tel:|\+)\+?[\d\s().-]+|(?:\(\d+\)[\s-]?|\d+[\s-]+)+\d+)$/;
+// Decimals and grouped numbers such as 3.14159265 or 1.000.000
+const DECIMAL_PATTERN = /^[+-]?\d+(?:[.,]\d+)+$/;
+const STACK_TRACE_PATTERNS = [
+  /^\s*at\s+\S.*(?::\d+\)?|\((?:native|Native Method|Unknown Source)\))$/m, // JavaScript, Java, C#
+  /Traceback \(most recent call last\)/, // Python
+  /^\s*File ".+", line \d+/m,
+  /^\s*#\d+\s+0x[0-9a-f]+/im, // Native backtraces
+  /panicked at /, // Rust
+];
+const ERROR_MESSAGE_PATTERNS = [
+  /\b[A-Z]\w*(?:Error|Exception):/, // TypeError: ..., java.lang.NullPointerException: ...
+  /^(?:error|fatal|panic)(?:\[[\w-]+\])?:/im, // Compilers and CLIs
+  /\bSegmentation fault\b/,
+];
+const CODE_SIGNALS = [
+  /[{}]\s*$/m,
+  /;\s*$/m,
+  /^\s*(?:def|class|function|fn|func|import|from|export|const|let|var|return|if|for|while|public|private|package|using|#include)\b/m,
+  /=>|->|::|===?|!==?|&&|\|\|/,
+  /\b\w+\([^()]*\)/,
+  /^(?: {2,}|\t)\S/m,
+];
+const MATH_PATTERN = /^(?:[\d\s.,+\-*/×÷^%()=√π!]|sqrt|sin|cos|tan|log|ln|pi)+$/i;
+const MATH_OPERATOR_PATTERN = /\d\s*[+\-*/×÷^%=!]|[√(]\s*\d/;
+const DATE_PATTERN = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/;
+const ADDRESS_PATTERNS = [
+  /\b\d{1,5}\s+(?:[\p{L}.'-]+\s+){1,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|way|court|ct|place|pl|square|sq|terrace|parkway|pkwy|highway|hwy)\b/iu,
+  /\b\p{L}+(?:straße|strasse|str\.|weg|gasse|platz|allee)\s+\d+/iu,
+  /\b\d{1,4},?\s+(?:rue|avenue|boulevard|bd|place|chemin|via|calle)\b/iu,
+  /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/, // US state and ZIP code
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/, // UK postcode
+];
+const MAX_ADDRESS_LENGTH = 200;
+
+// Writing systems that are easy to tell apart, and the languages written in them
+const SCRIPT_PATTERNS: Record<string, RegExp> = {
+  Latin: /\p{Script=Latin}/gu,
+  Cyrillic: /\p{Script=Cyrillic}/gu,
+  Greek: /\p{Script=Greek}/gu,
+  Arabic: /\p{Script=Arabic}/gu,
+  Hebrew: /\p{Script=Hebrew}/gu,
+  Han: /\p{Script=Han}/gu,
+  Kana: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu,
+  Hangul: /\p{Script=Hangul}/gu,
+  Devanagari: /\p{Script=Devanagari}/gu,
+  Thai: /\p{Script=Thai}/gu,
+};
+const LANGUAGE_SCRIPTS: Record<string, string[]> = {
+  ru: ['Cyrillic'],
+  uk: ['Cyrillic'],
+  bg: ['Cyrillic'],
+  sr: ['Cyrillic', 'Latin'],
+  be: ['Cyrillic'],
+  kk: ['Cyrillic'],
+  mk: ['Cyrillic'],
+  el: ['Greek'],
+  ar: ['Arabic'],
+  fa: ['Arabic'],
+  ur: ['Arabic'],
+  he: ['Hebrew'],
+  zh: ['Han'],
+  ja: ['Han', 'Kana'],
+  ko: ['Hangul', 'Han'],
+  hi: ['Devanagari'],
+  mr: ['Devanagari'],
+  ne: ['Devanagari'],
+  th: ['Thai'],
+};
+
+const primaryLanguage = (tag: string) => tag.split('-')[0].toLowerCase();
+
+function getDominantScript(text: string): string | null {
+  let dominant: string | null = null;
+  let highest = 0;
+  Object.entries(SCRIPT_PATTERNS).forEach(([script, pattern]) => {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > highest) {
+      dominant = script;
+      highest = count;
+    }
+  });
+  return dominant;
+}
+
+/** Text in another writing system than the reader's, or from a page declared in another language. */
+export function isForeignText(text: string, readerLanguage: string, pageLanguage: string): boolean {
+  const script = getDominantScript(text);
+  if (!script) {
+    return false;
+  }
+  const reader = primaryLanguage(readerLanguage);
+  const readerScripts = LANGUAGE_SCRIPTS[reader] ?? ['Latin'];
+  if (!readerScripts.includes(script)) {
+    return true;
+  }
+  return Boolean(pageLanguage) && primaryLanguage(pageLanguage) !== reader;
+}
+
+/** The kind of the selected text, or null for plain text in the reader's language. */
+export function classifySelection(text: string, readerLanguage: string, pageLanguage: string): SelectionKind | null {
+  const value = text.trim();
+  if (URL_PATTERN.test(value)) {
+    return 'url';
+  }
+  if (EMAIL_PATTERN.test(value)) {
+    return 'email';
+  }
+  if (STACK_TRACE_PATTERNS.some(pattern => pattern.test(value)) || ERROR_MESSAGE_PATTERNS.some(pattern => pattern.test(value))) {
+    return 'error';
+  }
+  if (CODE_SIGNALS.filter(pattern => pattern.test(value)).length >= 2) {
+    return 'code';
+  }
+  const digits = value.replace(/\D/g, '').length;
+  if (
+    PHONE_PATTERN.test(value) &&
+    digits >= 7 &&
+    digits <= 15 &&
+    !DATE_PATTERN.test(value) &&
+    !DECIMAL_PATTERN.test(value)
+  ) {
+    return 'phone';
+  }
+  if (MATH_PATTERN.test(value) && MATH_OPERATOR_PATTERN.test(value) && !DATE_PATTERN.test(value)) {
+    return 'math';
+  }
+  if (value.length <= MAX_ADDRESS_LENGTH && ADDRESS_PATTERNS.some(pattern => pattern.test(value))) {
+    return 'address';
+  }
+  if (isForeignText(value, readerLanguage, pageLanguage)) {
+    return 'foreign';
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+import { SessionMap } from './sessionMap';
+
+let stored: Record<string, unknown>;
+
+// Storage hands out copies, like the real API
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+beforeEach(() => {
+  stored = {};
+  (chrome.storage as any).session = {
+    get: jest.fn(async (key: string) => (key in stored ? { [key]: copy(stored[key]) } : {})),
+    set: jest.fn(async (items: Record<string, unknown>) => {
+      Object.assign(stored, copy(items));
+    }),
+  };
+});
+
+describe('SessionMap', () => {
+  it('keeps entries in session storage, so a new instance still sees them', async () => {
+    await new SessionMap<string>('reusableTabs').set('chatgpt', 12);
+
+    expect(stored).toEqual({ reusableTabs: { chatgpt: 12 } });
+    expect(await new SessionMap<string>('reusableTabs').get('chatgpt')).toBe(12);
+    expect(await new SessionMap<string>('reusableTabs').get('claude')).toBeUndefined();
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    const map = new SessionMap<number>('sourceGroups');
+    await Promise.all([map.set(1, 100), map.set(2, 200), map.set(3, 100)]);
+
+    expect(stored.sourceGroups).toEqual({ 1: 100, 2: 200, 3: 100 });
+
+    await Promise.all([map.delete(2), map.deleteValue(100)]);
+    expect(stored.sourceGroups).toEqual({});
+  });
+
+  it('keeps working after a failed write', async () => {
+    const map = new SessionMap<string>('reusableTabs');
+    (chrome.storage.session.set as jest.Mock).mockRejectedValueOnce(new Error('quota'));
+
+    await expect(map.set('google', 5)).rejects.toThrow('quota');
+    await map.set('claude', 7);
+    expect(await map.get('claude')).toBe(7);
+    expect(await map.get('google')).toBeUndefined();
+  });
+});
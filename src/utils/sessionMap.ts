@@ -0,0 +1,52 @@
+// Small id lookups kept in chrome.storage.session. The background service
+// worker is stopped when idle, which clears anything held in memory; session
+// storage survives that, and is itself cleared when the browser closes, so
+// tab and group ids never outlive the session they belong to.
+export class SessionMap<K extends string | number> {
+  // Writes are chained so concurrent updates (e.g. "Ask all") don't overwrite each other
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storageKey: string) {}
+
+  async get(key: K): Promise<number | undefined> {
+    await this.pending;
+    return (await this.read())[String(key)];
+  }
+
+  set(key: K, value: number): Promise<void> {
+    return this.update((entries) => {
+      entries[String(key)] = value;
+    });
+  }
+
+  delete(key: K): Promise<void> {
+    return this.update((entries) => {
+      delete entries[String(key)];
+    });
+  }
+
+  /** Remove every entry whose value is `value`. */
+  deleteValue(value: number): Promise<void> {
+    return this.update((entries) => {
+      Object.keys(entries)
+        .filter((key) => entries[key] === value)
+        .forEach((key) => delete entries[key]);
+    });
+  }
+
+  private async read(): Promise<Record<string, number>> {
+    const stored = (await chrome.storage.session.get(this.storageKey))[this.storageKey];
+    return typeof stored === 'object' && stored !== null ? { ...stored } : {};
+  }
+
+  private update(change: (entries: Record<string, number>) => void): Promise<void> {
+    const next = this.pending.then(async () => {
+      const entries = await this.read();
+      change(entries);
+      await chrome.storage.session.set({ [this.storageKey]: entries });
+    });
+    // A failed write must not block the ones after it
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  defaultProviders,
+  defaultSettings,
+  mergeLegacySettings,
+  migrateSettings,
+  parseSettings,
+  SETTINGS_VERSION,
+} from './settings';
+
+describe('migrateSettings', () => {
+  it('turns the v0 provider flags into the provider list', () => {
+    const migrated = migrateSettings({ providers: { chatgpt: false, google: true, claude: true } });
+
+    expect(migrated.version).toBe(1);
+    expect(migrated.providers).toEqual(
+      defaultProviders.map((provider) => ({ ...provider, enabled: provider.id !== 'chatgpt' }))
+    );
+  });
+
+  it('keeps defaults for flags that are missing or not booleans', () => {
+    const migrated = migrateSettings({ providers: { claude: 'yes' } });
+    const claude = (migrated.providers as { id: string; enabled: boolean }[]).find((provider) => provider.id === 'claude');
+
+    expect(claude?.enabled).toBe(false);
+  });
+
+  it('leaves records at the current version untouched', () => {
+    const stored = { version: SETTINGS_VERSION, providers: { chatgpt: false } };
+
+    expect(migrateSettings(stored)).toBe(stored);
+  });
+});
+
+describe('parseSettings', () => {
+  it('returns defaults without repairs when nothing is stored', () => {
+    expect(parseSettings(undefined)).toEqual({ settings: defaultSettings, repairs: [], fellBack: false });
+  });
+
+  it('falls back to defaults for a record that is not an object', () => {
+    expect(parseSettings('corrupt')).toEqual({ settings: defaultSettings, repairs: ['settings'], fellBack: true });
+    expect(parseSettings([1, 2])).toMatchObject({ fellBack: true });
+  });
+
+  it('accepts a valid record without repairs', () => {
+    const { settings, repairs, fellBack } = parseSettings(defaultSettings);
+
+    expect(settings).toEqual(defaultSettings);
+    expect(repairs).toEqual([]);
+    expect(fellBack).toBe(false);
+  });
+
+  it('repairs only the fields that hold invalid values', () => {
+    const { settings, repairs } = parseSettings({
+      ...defaultSettings,
+      theme: 'neon',
+      scrollThreshold: -5,
+      history: { enabled: true, maxAgeDays: 'forever', maxEntries: 50 },
+      uiLanguage: 'xx',
+    });
+
+    expect(repairs).toEqual(['theme', 'history.maxAgeDays', 'scrollThreshold', 'uiLanguage']);
+    expect(settings.theme).toBe(defaultSettings.theme);
+    expect(settings.scrollThreshold).toBe(defaultSettings.scrollThreshold);
+    expect(settings.history).toEqual({ enabled: true, maxAgeDays: defaultSettings.history.maxAgeDays, maxEntries: 50 });
+    expect(settings.uiLanguage).toBe('');
+  });
+
+  it('fills in fields added after the record was written without counting them as repairs', () => {
+    const { trigger: _trigger, toolbarLayout: _toolbarLayout, ...older } = defaultSettings;
+    const { settings, repairs } = parseSettings(older);
+
+    expect(repairs).toEqual([]);
+    expect(settings.trigger).toEqual(defaultSettings.trigger);
+    expect(settings.toolbarLayout).toEqual(defaultSettings.toolbarLayout);
+  });
+
+  it('drops broken and duplicate providers and restores missing built-ins', () => {
+    const custom = { id: 'wiki', name: 'Wiki', urlTemplate: 'https://wiki.example.com/?q={query}', icon: '', enabled: true };
+    const { settings, repairs } = parseSettings({
+      ...defaultSettings,
+      providers: [custom, { id: 'broken', name: 'Broken', urlTemplate: 'https://example.com/' }, custom],
+    });
+
+    expect(settings.providers.map((provider) => provider.id)).toEqual(['wiki', 'chatgpt', 'google', 'claude']);
+    expect(repairs).toEqual(['providers[1].urlTemplate', 'providers[1]', 'providers.wiki']);
+  });
+
+  it('lets built-in providers borrow broken fields from their defaults', () => {
+    const { settings } = parseSettings({
+      ...defaultSettings,
+      providers: [{ id: 'google', name: '', urlTemplate: 42, enabled: false }],
+    });
+    const google = settings.providers.find((provider) => provider.id === 'google');
+
+    expect(google).toMatchObject({
+      name: 'Google Search',
+      urlTemplate: 'https://www.google.com/search?q={query}',
+      enabled: false,
+    });
+  });
+
+  it('keeps only valid actions for each selection kind', () => {
+    const { settings, repairs } = parseSettings({
+      ...defaultSettings,
+      selectionActions: { ...defaultSettings.selectionActions, code: ['copy', 'call', 'launch'] },
+    });
+
+    expect(settings.selectionActions.code).toEqual(['copy']);
+    expect(repairs).toEqual(['selectionActions.code[1]', 'selectionActions.code[2]']);
+  });
+});
+
+describe('mergeLegacySettings', () => {
+  it('migrates the legacy record and lets its fields win', () => {
+    const merged = mergeLegacySettings(defaultSettings, {
+      enabled: false,
+      providers: { chatgpt: true, google: false, claude: true },
+    });
+
+    expect(merged.enabled).toBe(false);
+    expect(merged.providers.map((provider) => [provider.id, provider.enabled])).toEqual([
+      ['chatgpt', true],
+      ['google', false],
+      ['claude', true],
+    ]);
+    expect(merged.version).toBe(SETTINGS_VERSION);
+  });
+
+  it('ignores a legacy value that is not a settings record', () => {
+    expect(mergeLegacySettings(defaultSettings, 'corrupt')).toBe(defaultSettings);
+    expect(mergeLegacySettings(defaultSettings, null)).toBe(defaultSettings);
+  });
+});
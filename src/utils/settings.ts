@@ -0,0 +1,641 @@
+// Settings schema shared by the background worker, the options page and
+// the content script. Stored records are upgraded through
+// `migrations` and then validated field by field, so a corrupt value only
+// costs that one field rather than the whole record.
+import { isUiLanguage, UiLanguage } from './i18n';
+
+export const SETTINGS_VERSION = 1;
+
+// Where a provider's results open. Ctrl/Cmd- and middle-clicks in the toolbar
+// additionally keep the new tab (or window) in the background.
+export type TabBehavior = 'adjacent' | 'end' | 'window' | 'reuse';
+
+export const DEFAULT_TAB_BEHAVIOR: TabBehavior = 'adjacent';
+
+// Page details (enclosing block, nearest heading, title and URL) appended to
+// the selection for AI providers, up to maxChars characters
+export interface PageContextSettings {
+  enabled: boolean;
+  maxChars: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET = 1500;
+
+// Longest provider URL that is still delivered intact; longer selections are
+// shortened, copied to the clipboard or handed off to the opened tab instead
+export const DEFAULT_MAX_URL_LENGTH = 8000;
+
+// What the content script recognizes a selection as, and the extra toolbar
+// actions that can be offered for each kind
+export type SelectionKind = 'url' | 'email' | 'phone' | 'address' | 'code' | 'error' | 'math' | 'foreign';
+
+export type SelectionAction =
+  | 'open-link'
+  | 'send-email'
+  | 'call'
+  | 'open-map'
+  | 'copy'
+  | 'search-exact'
+  | 'calculate'
+  | 'explain'
+  | 'translate';
+
+export const SELECTION_KINDS: SelectionKind[] = ['url', 'email', 'phone', 'address', 'code', 'error', 'math', 'foreign'];
+
+export const SELECTION_ACTIONS_BY_KIND: Record<SelectionKind, SelectionAction[]> = {
+  url: ['open-link', 'copy'],
+  email: ['send-email', 'copy'],
+  phone: ['call', 'copy'],
+  address: ['open-map', 'copy'],
+  code: ['explain', 'search-exact', 'copy'],
+  error: ['search-exact', 'explain', 'copy'],
+  math: ['calculate', 'explain'],
+  foreign: ['translate', 'explain'],
+};
+
+export type SelectionActions = Record<SelectionKind, SelectionAction[]>;
+
+// When a mouse or pen selection brings up the toolbar. Keyboard and touch
+// selections skip the modifier check; length limits of 0 mean no limit.
+export type TriggerModifier = 'none' | 'alt' | 'shift' | 'ctrl' | 'meta';
+
+export interface TriggerSettings {
+  modifier: TriggerModifier;
+  minChars: number;
+  maxChars: number;
+  minWords: number;
+  maxWords: number;
+  // Wait this long, and for the pointer to come to rest, before showing the toolbar
+  delayMs: number;
+  // Regular expressions; selections matching any of them never show the toolbar
+  exclusions: string[];
+}
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  urlTemplate: string;
+  icon: string;
+  enabled: boolean;
+  maxUrlLength: number;
+  builtIn?: boolean;
+  acceptsPrompts?: boolean;
+  tabBehavior?: TabBehavior; // Defaults to DEFAULT_TAB_BEHAVIOR
+  pageContext?: PageContextSettings; // Only used when acceptsPrompts is set
+  // Advanced URL options by option key; see PROVIDER_OPTIONS in utils/providers.ts
+  queryOptions?: ProviderQueryOptions;
+}
+
+export type ProviderQueryOptions = Record<string, string | boolean>;
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  template: string;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  maxAgeDays: number; // 0 keeps entries regardless of age
+  maxEntries: number;
+}
+
+export interface SiteRule {
+  pattern: string; // Hostname, optionally with '*' wildcards
+  action: 'allow' | 'block';
+}
+
+export interface SiteRules {
+  // Applies when no rule matches; a matching block rule always wins over an allow rule
+  defaultAction: 'allow' | 'block';
+  rules: SiteRule[];
+}
+
+export type Theme = 'light' | 'dark' | 'system' | 'adaptive';
+
+export interface ToolbarLayout {
+  // Provider buttons show their icon only, or the icon followed by the provider name
+  labels: 'icon' | 'icon-label';
+  size: 'compact' | 'comfortable';
+  orientation: 'horizontal' | 'vertical';
+}
+
+export interface Settings {
+  version: number;
+  enabled: boolean;
+  // In toolbar order
+  providers: ProviderConfig[];
+  affordanceMode: 'quick-actions' | 'picker';
+  // 'system' follows prefers-color-scheme; 'adaptive' matches the page behind the selection
+  theme?: Theme;
+  promptTemplates: PromptTemplate[];
+  promptLanguage: string;
+  history: HistorySettings;
+  siteRules: SiteRules;
+  // Put provider tabs in a tab group named after the page they were opened from
+  groupTabsBySource: boolean;
+  // How far (in px) the selection may move by scrolling before the toolbar hides; 0 follows it
+  // for as long as it stays in the viewport
+  scrollThreshold: number;
+  // Contextual actions shown for each kind of selection; an empty list shows none
+  selectionActions: SelectionActions;
+  trigger: TriggerSettings;
+  toolbarLayout: ToolbarLayout;
+  // Language of the options page, toolbar and context menus; '' follows the browser
+  uiLanguage: UiLanguage | '';
+}
+
+export const defaultProviders: ProviderConfig[] = [
+  {
+    id: 'chatgpt',
+    name: 'ChatGPT',
+    // Include both q and input params so ChatGPT prefills reliably across variants
+    urlTemplate: 'https://chatgpt.com/?q={query}&input={query}',
+    icon: 'icons/chatgpt.svg',
+    enabled: true,
+    maxUrlLength: 8000,
+    builtIn: true,
+    acceptsPrompts: true,
+  },
+  {
+    id: 'google',
+    name: 'Google Search',
+    urlTemplate: 'https://www.google.com/search?q={query}',
+    icon: 'icons/google.svg',
+    enabled: true,
+    // Longer queries are cut off by Google
+    maxUrlLength: 2048,
+    builtIn: true,
+  },
+  {
+    id: 'claude',
+    name: 'Claude',
+    urlTemplate: 'https://claude.ai/new?q={query}',
+    icon: 'icons/claude.svg',
+    enabled: false,
+    maxUrlLength: 8000,
+    builtIn: true,
+    acceptsPrompts: true,
+  },
+];
+
+export const defaultPromptTemplates: PromptTemplate[] = [
+  {
+    id: 'explain',
+    name: 'Explain',
+    template: 'Explain this:\n\n{selection}',
+  },
+  {
+    id: 'summarize',
+    name: 'Summarize',
+    template: 'Summarize the following text from "{pageTitle}" ({url}):\n\n{selection}',
+  },
+  {
+    id: 'translate',
+    name: 'Translate',
+    template: 'Translate the following text into {language}:\n\n{selection}',
+  },
+  {
+    id: 'fix-grammar',
+    name: 'Fix grammar',
+    template: 'Fix the grammar and spelling in the following text. Reply with the corrected text only.\n\n{selection}',
+  },
+];
+
+export const defaultSettings: Settings = {
+  version: SETTINGS_VERSION,
+  enabled: true,
+  providers: defaultProviders,
+  affordanceMode: 'quick-actions',
+  theme: 'light',
+  promptTemplates: defaultPromptTemplates,
+  promptLanguage: '',
+  history: {
+    enabled: true,
+    maxAgeDays: 90,
+    maxEntries: 1000,
+  },
+  siteRules: {
+    defaultAction: 'allow',
+    rules: [],
+  },
+  groupTabsBySource: false,
+  scrollThreshold: 0,
+  selectionActions: {
+    url: ['open-link'],
+    email: ['send-email'],
+    phone: ['call'],
+    address: ['open-map'],
+    code: ['explain', 'copy'],
+    error: ['search-exact', 'explain'],
+    math: ['calculate'],
+    foreign: ['translate'],
+  },
+  trigger: {
+    modifier: 'none',
+    minChars: 1,
+    maxChars: 0,
+    minWords: 0,
+    maxWords: 0,
+    delayMs: 0,
+    exclusions: [],
+  },
+  toolbarLayout: {
+    labels: 'icon',
+    size: 'compact',
+    orientation: 'horizontal',
+  },
+  uiLanguage: '',
+};
+
+// --- Migrations ---
+
+type StoredSettings = Record<string, unknown>;
+
+interface SettingsMigration {
+  version: number;
+  migrate: (stored: StoredSettings) => StoredSettings;
+}
+
+/**
+ * Ordered upgrade steps. Each step receives a record at the previous version;
+ * records written before versioning existed count as version 0. Append new
+ * steps here and bump SETTINGS_VERSION — never edit a released step.
+ */
+const migrations: SettingsMigration[] = [
+  {
+    // Providers moved from { chatgpt, google, claude } flags to a registry list
+    version: 1,
+    migrate: (stored) => {
+      const providers = stored.providers;
+      if (!isRecord(providers) || Array.isArray(providers)) {
+        return stored;
+      }
+      return {
+        ...stored,
+        providers: defaultProviders.map((provider) => ({
+          ...provider,
+          enabled: typeof providers[provider.id] === 'boolean' ? providers[provider.id] : provider.enabled,
+        })),
+      };
+    },
+  },
+];
+
+export function getStoredVersion(stored: StoredSettings): number {
+  return typeof stored.version === 'number' ? stored.version : 0;
+}
+
+export function migrateSettings(stored: StoredSettings): StoredSettings {
+  const fromVersion = getStoredVersion(stored);
+  return migrations
+    .filter((migration) => migration.version > fromVersion)
+    .reduce<StoredSettings>((current, migration) => ({ ...migration.migrate(current), version: migration.version }), stored);
+}
+
+/**
+ * Fold in settings saved to localStorage by versions before IndexedDB. They
+ * predate versioning, so they run through the whole chain above and then
+ * override the stored record field by field.
+ */
+export function mergeLegacySettings(current: Settings, legacy: unknown): Settings {
+  if (!isRecord(legacy) || Array.isArray(legacy)) {
+    return current;
+  }
+  return validateSettings({ ...current, ...migrateSettings(legacy) }).settings;
+}
+
+// --- Validation ---
+
+export interface ParsedSettings {
+  settings: Settings;
+  // Paths of fields that held invalid values and were replaced
+  repairs: string[];
+  // The stored record was unusable as a whole and defaults were returned instead
+  fellBack: boolean;
+}
+
+type Reader<T> = (value: unknown, path: string, repairs: string[]) => T | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+const readBoolean: Reader<boolean> = (value) => (typeof value === 'boolean' ? value : undefined);
+
+const readString: Reader<string> = (value) => (typeof value === 'string' ? value : undefined);
+
+const readNonEmptyString: Reader<string> = (value) =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+function readOneOf<T extends string>(options: readonly T[]): Reader<T> {
+  return (value) => (options.includes(value as T) ? (value as T) : undefined);
+}
+
+function readInteger(min: number): Reader<number> {
+  return (value) => (Number.isInteger(value) && (value as number) >= min ? (value as number) : undefined);
+}
+
+/** Read one field, falling back (and noting a repair) when the stored value is unusable. */
+function readField<T>(
+  record: Record<string, unknown>,
+  key: string,
+  read: Reader<T>,
+  fallback: T,
+  path: string,
+  repairs: string[]
+): T {
+  const fieldPath = path ? `${path}.${key}` : key;
+  if (record[key] === undefined) {
+    // Missing fields are simply newer than the stored record
+    return fallback;
+  }
+  const result = read(record[key], fieldPath, repairs);
+  if (result === undefined) {
+    repairs.push(fieldPath);
+    return fallback;
+  }
+  return result;
+}
+
+/** Keep the valid entries of a list, dropping (and noting) the ones that cannot be repaired. */
+function readList<T>(readItem: Reader<T>): Reader<T[]> {
+  return (value, path, repairs) => {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    const items: T[] = [];
+    value.forEach((item, index) => {
+      const result = readItem(item, `${path}[${index}]`, repairs);
+      if (result === undefined) {
+        repairs.push(`${path}[${index}]`);
+      } else {
+        items.push(result);
+      }
+    });
+    return items;
+  };
+}
+
+const readPageContextSettings: Reader<PageContextSettings> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  return {
+    enabled: readField(value, 'enabled', readBoolean, false, path, repairs),
+    maxChars: readField(value, 'maxChars', readInteger(1), DEFAULT_CONTEXT_BUDGET, path, repairs),
+  };
+};
+
+const readQueryOptions: Reader<ProviderQueryOptions> = (value) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const options: ProviderQueryOptions = {};
+  Object.entries(value).forEach(([key, option]) => {
+    if (typeof option === 'string' || typeof option === 'boolean') {
+      options[key] = option;
+    }
+  });
+  return options;
+};
+
+const readProvider: Reader<ProviderConfig> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  // Built-in entries can borrow any broken field from their default
+  const builtIn = defaultProviders.find((provider) => provider.id === value.id);
+  const id = readNonEmptyString(value.id, path, repairs);
+  const name = readField(value, 'name', readNonEmptyString, builtIn?.name, path, repairs);
+  const urlTemplate = readField(
+    value,
+    'urlTemplate',
+    (template) => (typeof template === 'string' && template.includes('{query}') ? template : undefined),
+    builtIn?.urlTemplate,
+    path,
+    repairs
+  );
+  if (!id || !name || !urlTemplate) {
+    return undefined;
+  }
+
+  const provider: ProviderConfig = {
+    id,
+    name,
+    urlTemplate,
+    icon: readField(value, 'icon', readString, builtIn?.icon ?? '', path, repairs),
+    enabled: readField(value, 'enabled', readBoolean, builtIn?.enabled ?? true, path, repairs),
+    maxUrlLength: readField(
+      value,
+      'maxUrlLength',
+      readInteger(1),
+      builtIn?.maxUrlLength ?? DEFAULT_MAX_URL_LENGTH,
+      path,
+      repairs
+    ),
+  };
+  const builtInFlag = readField(value, 'builtIn', readBoolean, builtIn?.builtIn, path, repairs);
+  if (builtInFlag !== undefined) {
+    provider.builtIn = builtInFlag;
+  }
+  const acceptsPrompts = readField(value, 'acceptsPrompts', readBoolean, builtIn?.acceptsPrompts, path, repairs);
+  if (acceptsPrompts !== undefined) {
+    provider.acceptsPrompts = acceptsPrompts;
+  }
+  const tabBehavior = readField(
+    value,
+    'tabBehavior',
+    readOneOf(['adjacent', 'end', 'window', 'reuse'] as const),
+    undefined,
+    path,
+    repairs
+  );
+  if (tabBehavior !== undefined) {
+    provider.tabBehavior = tabBehavior;
+  }
+  const pageContext = readField(value, 'pageContext', readPageContextSettings, undefined, path, repairs);
+  if (pageContext !== undefined) {
+    provider.pageContext = pageContext;
+  }
+  const queryOptions = readField(value, 'queryOptions', readQueryOptions, undefined, path, repairs);
+  if (queryOptions !== undefined) {
+    provider.queryOptions = queryOptions;
+  }
+  return provider;
+};
+
+const readProviders: Reader<ProviderConfig[]> = (value, path, repairs) => {
+  const providers = readList(readProvider)(value, path, repairs);
+  if (!providers) {
+    return undefined;
+  }
+
+  const unique = providers.filter((provider, index) => {
+    const isDuplicate = providers.findIndex((entry) => entry.id === provider.id) !== index;
+    if (isDuplicate) {
+      repairs.push(`${path}.${provider.id}`);
+    }
+    return !isDuplicate;
+  });
+
+  // Built-in providers cannot be deleted, so a missing one was added in a later release
+  const missingBuiltIns = defaultProviders.filter(
+    (provider) => !unique.some((entry) => entry.id === provider.id)
+  );
+  return [...unique, ...missingBuiltIns];
+};
+
+const readPromptTemplate: Reader<PromptTemplate> = (value) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const id = readNonEmptyString(value.id, '', []);
+  const name = readNonEmptyString(value.name, '', []);
+  const template = readNonEmptyString(value.template, '', []);
+  return id && name && template ? { id, name, template } : undefined;
+};
+
+const readHistorySettings: Reader<HistorySettings> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const fallback = defaultSettings.history;
+  return {
+    enabled: readField(value, 'enabled', readBoolean, fallback.enabled, path, repairs),
+    maxAgeDays: readField(value, 'maxAgeDays', readInteger(0), fallback.maxAgeDays, path, repairs),
+    maxEntries: readField(value, 'maxEntries', readInteger(1), fallback.maxEntries, path, repairs),
+  };
+};
+
+const readSiteRule: Reader<SiteRule> = (value) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const pattern = readNonEmptyString(value.pattern, '', []);
+  const action = readOneOf(['allow', 'block'] as const)(value.action, '', []);
+  return pattern && action ? { pattern, action } : undefined;
+};
+
+const readSiteRules: Reader<SiteRules> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const fallback = defaultSettings.siteRules;
+  return {
+    defaultAction: readField(
+      value,
+      'defaultAction',
+      readOneOf(['allow', 'block'] as const),
+      fallback.defaultAction,
+      path,
+      repairs
+    ),
+    rules: readField(value, 'rules', readList(readSiteRule), fallback.rules, path, repairs),
+  };
+};
+
+const readSelectionActions: Reader<SelectionActions> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const actions = {} as SelectionActions;
+  SELECTION_KINDS.forEach((kind) => {
+    const readActions = readList(readOneOf(SELECTION_ACTIONS_BY_KIND[kind]));
+    actions[kind] = readField(value, kind, readActions, defaultSettings.selectionActions[kind], path, repairs);
+  });
+  return actions;
+};
+
+const readPattern: Reader<string> = (value) => {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+  try {
+    new RegExp(value);
+    return value;
+  } catch (_error) {
+    return undefined;
+  }
+};
+
+const readTriggerSettings: Reader<TriggerSettings> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const fallback = defaultSettings.trigger;
+  return {
+    modifier: readField(
+      value,
+      'modifier',
+      readOneOf(['none', 'alt', 'shift', 'ctrl', 'meta'] as const),
+      fallback.modifier,
+      path,
+      repairs
+    ),
+    minChars: readField(value, 'minChars', readInteger(0), fallback.minChars, path, repairs),
+    maxChars: readField(value, 'maxChars', readInteger(0), fallback.maxChars, path, repairs),
+    minWords: readField(value, 'minWords', readInteger(0), fallback.minWords, path, repairs),
+    maxWords: readField(value, 'maxWords', readInteger(0), fallback.maxWords, path, repairs),
+    delayMs: readField(value, 'delayMs', readInteger(0), fallback.delayMs, path, repairs),
+    exclusions: readField(value, 'exclusions', readList(readPattern), fallback.exclusions, path, repairs),
+  };
+};
+
+const readToolbarLayout: Reader<ToolbarLayout> = (value, path, repairs) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const fallback = defaultSettings.toolbarLayout;
+  return {
+    labels: readField(value, 'labels', readOneOf(['icon', 'icon-label'] as const), fallback.labels, path, repairs),
+    size: readField(value, 'size', readOneOf(['compact', 'comfortable'] as const), fallback.size, path, repairs),
+    orientation: readField(
+      value,
+      'orientation',
+      readOneOf(['horizontal', 'vertical'] as const),
+      fallback.orientation,
+      path,
+      repairs
+    ),
+  };
+};
+
+const readUiLanguage: Reader<UiLanguage | ''> = (value) => (value === '' || isUiLanguage(value) ? value : undefined);
+
+export function validateSettings(value: StoredSettings): ParsedSettings {
+  const repairs: string[] = [];
+  const read = <T>(key: string, reader: Reader<T>, fallback: T) =>
+    readField(value, key, reader, fallback, '', repairs);
+
+  const settings: Settings = {
+    version: SETTINGS_VERSION,
+    enabled: read('enabled', readBoolean, defaultSettings.enabled),
+    providers: read('providers', readProviders, defaultSettings.providers),
+    affordanceMode: read('affordanceMode', readOneOf(['quick-actions', 'picker'] as const), defaultSettings.affordanceMode),
+    theme: read('theme', readOneOf(['light', 'dark', 'system', 'adaptive'] as const), defaultSettings.theme),
+    promptTemplates: read('promptTemplates', readList(readPromptTemplate), defaultSettings.promptTemplates),
+    promptLanguage: read('promptLanguage', readString, defaultSettings.promptLanguage),
+    history: read('history', readHistorySettings, defaultSettings.history),
+    siteRules: read('siteRules', readSiteRules, defaultSettings.siteRules),
+    groupTabsBySource: read('groupTabsBySource', readBoolean, defaultSettings.groupTabsBySource),
+    scrollThreshold: read('scrollThreshold', readInteger(0), defaultSettings.scrollThreshold),
+    selectionActions: read('selectionActions', readSelectionActions, defaultSettings.selectionActions),
+    trigger: read('trigger', readTriggerSettings, defaultSettings.trigger),
+    toolbarLayout: read('toolbarLayout', readToolbarLayout, defaultSettings.toolbarLayout),
+    uiLanguage: read('uiLanguage', readUiLanguage, defaultSettings.uiLanguage),
+  };
+
+  return { settings, repairs, fellBack: false };
+}
+
+/** Migrate and validate whatever was read from storage (or received in a message). */
+export function parseSettings(stored: unknown): ParsedSettings {
+  if (stored === undefined || stored === null) {
+    return { settings: defaultSettings, repairs: [], fellBack: false };
+  }
+  if (!isRecord(stored) || Array.isArray(stored)) {
+    return { settings: defaultSettings, repairs: ['settings'], fellBack: true };
+  }
+  return validateSettings(migrateSettings(stored));
+}
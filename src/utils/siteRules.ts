@@ -0,0 +1,17 @@
+/**
+ * Reduce user input such as "https://Docs.Example.com/path" to a bare
+ * hostname pattern. Returns null when nothing usable remains.
+ */
+export function normalizeSitePattern(input: string): string | null {
+  const pattern = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '');
+
+  if (!pattern || !/^[a-z0-9*.-]+$/.test(pattern)) {
+    return null;
+  }
+  return pattern;
+}
@@ -0,0 +1,19 @@
+import { t } from './i18n';
+
+export const TEMPLATE_PLACEHOLDERS = ['{selection}', '{pageTitle}', '{url}', '{language}'] as const;
+
+/**
+ * Returns a human-readable problem with the prompt template, or null when it
+ * can be offered in the toolbar.
+ */
+export function validatePromptTemplate(template: string): string | null {
+  if (!template.trim()) {
+    return t('errorPromptEmpty');
+  }
+
+  if (!template.includes('{selection}')) {
+    return t('errorPromptSelection', '{selection}');
+  }
+
+  return null;
+}
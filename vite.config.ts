@@ -1,12 +1,38 @@
-import { defineConfig } from 'vite';
+import { build, defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
 import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { cpSync } from 'fs';
 
+// Content scripts run as classic scripts and can't import the shared chunks of
+// the main build, so the content script is bundled on its own into one file.
+const contentScript = (): Plugin => ({
+  name: 'build-content-script',
+  async closeBundle() {
+    await build({
+      configFile: false,
+      define: {
+        global: 'globalThis',
+      },
+      build: {
+        outDir: 'dist',
+        emptyOutDir: false,
+        copyPublicDir: false,
+        lib: {
+          entry: resolve(__dirname, 'src/contentScript.ts'),
+          name: 'selectToSearch',
+          formats: ['iife'],
+          fileName: () => 'content.js',
+        },
+      },
+    });
+  },
+});
+
 export default defineConfig({
   plugins: [
     react(),
+    contentScript(),
     {
       name: 'copy-manifest',
       closeBundle() {
@@ -18,6 +44,9 @@ export default defineConfig({
         optionsHtml = optionsHtml.replace('src="/options.js"', 'src="./options.js"');
         writeFileSync('dist/options.html', optionsHtml);
 
+        // Copy localized strings, read by chrome.i18n and the manifest's __MSG_ references
+        cpSync('_locales/', 'dist/_locales/', { recursive: true });
+
         // Copy icons if they exist
         if (existsSync('public/icons')) {
           mkdirSync('dist/icons', { recursive: true });
@@ -31,8 +60,6 @@ export default defineConfig({
     emptyOutDir: true,
     rollupOptions: {
       input: {
-        // Content script entry
-        content: resolve(__dirname, 'src/contentScript.ts'),
         // Background service worker entry
         background: resolve(__dirname, 'src/background.ts'),
         // Options page entry